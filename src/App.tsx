@@ -2,12 +2,18 @@ import React from 'react';
 import ErrorBoundary from './errors/boundaries/ErrorBoundary';
 import ErrorDemo from './pages/ErrorDemo';
 import ToastContainer from './components/ui/ToastContainer';
+import OfflineBanner from './components/ui/OfflineBanner';
+import CircuitBreakerBanner from './components/ui/CircuitBreakerBanner';
+import ErrorScope from './components/ErrorScope';
+import FeatureFlagPanel from './components/ui/FeatureFlagPanel';
 import { ShieldAlert } from 'lucide-react';
 
 function App() {
   return (
     <ErrorBoundary>
       <div className="min-h-screen bg-gray-100">
+        <OfflineBanner />
+        <CircuitBreakerBanner />
         <header className="bg-slate-800 text-white shadow-md">
           <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8 flex items-center">
             <ShieldAlert className="h-8 w-8 text-yellow-400 mr-3" />
@@ -16,7 +22,9 @@ function App() {
         </header>
 
         <main>
-          <ErrorDemo />
+          <ErrorScope tags={{ area: 'error-demo' }}>
+            <ErrorDemo />
+          </ErrorScope>
         </main>
 
         <footer className="bg-slate-800 text-white py-6">
@@ -28,6 +36,7 @@ function App() {
         </footer>
 
         <ToastContainer />
+        {import.meta.env.DEV && <FeatureFlagPanel />}
       </div>
     </ErrorBoundary>
   );
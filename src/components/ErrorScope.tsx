@@ -0,0 +1,35 @@
+import React, { ReactNode, useMemo } from 'react';
+import { FeatureFlagValue } from '../types';
+import useErrorScope, { ErrorScopeContext } from '../hooks/useErrorScope';
+
+interface ErrorScopeProps {
+  tags?: Record<string, string>;
+  extras?: Record<string, unknown>;
+  // Feature flags guarding the subtree, with the values they served
+  flags?: Record<string, FeatureFlagValue>;
+  children: ReactNode;
+}
+
+/**
+ * Adds tags, extras and flags to errors reported from a component subtree
+ * (by useApi and ErrorBoundary) without touching the global scope
+ * Nested scopes merge, inner values winning
+ */
+const ErrorScope: React.FC<ErrorScopeProps> = ({ tags, extras, flags, children }) => {
+  const parent = useErrorScope();
+
+  const value = useMemo(() => ({
+    ...parent,
+    tags: { ...parent.tags, ...tags },
+    extras: { ...parent.extras, ...extras },
+    flags: parent.flags || flags ? { ...parent.flags, ...flags } : undefined
+  }), [parent, tags, extras, flags]);
+
+  return (
+    <ErrorScopeContext.Provider value={value}>
+      {children}
+    </ErrorScopeContext.Provider>
+  );
+};
+
+export default ErrorScope;
@@ -0,0 +1,27 @@
+import React, { ReactNode, useMemo } from 'react';
+import { FeatureFlagName } from '../types';
+import useFeatureFlag, { useFlagValue } from '../hooks/useFeatureFlag';
+import ErrorScope from './ErrorScope';
+
+interface FeatureProps {
+  name: FeatureFlagName;
+  // Rendered while the flag is disabled
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+/**
+ * Renders its children only while a feature flag is enabled
+ * Errors reported from the children (by useApi and ErrorBoundary) are tagged with the flag
+ */
+const Feature: React.FC<FeatureProps> = ({ name, fallback = null, children }) => {
+  const enabled = useFeatureFlag(name);
+  const value = useFlagValue(name);
+  const flags = useMemo(() => ({ [name]: value }), [name, value]);
+
+  if (!enabled) return <>{fallback}</>;
+
+  return <ErrorScope flags={flags}>{children}</ErrorScope>;
+};
+
+export default Feature;
@@ -0,0 +1,34 @@
+import React, { ReactNode, useEffect, useMemo } from 'react';
+import { UserContext } from '../types';
+import { FlagSource } from '../features/flagSources';
+import { addFlagSource } from '../features/featureFlags';
+import { FeatureFlagContext } from '../hooks/useFeatureFlag';
+
+interface FeatureFlagProviderProps {
+  // Sources added while the provider is mounted, above those added before; keep the array stable
+  sources?: FlagSource[];
+  // Evaluate flags in this subtree for a specific user (e.g. previews, tests)
+  user?: UserContext | null;
+  children: ReactNode;
+}
+
+/**
+ * Makes flag sources and an optional user available to useFeatureFlag and Feature
+ * Without a provider, flags are evaluated for the global scope's user
+ */
+const FeatureFlagProvider: React.FC<FeatureFlagProviderProps> = ({ sources, user, children }) => {
+  useEffect(() => {
+    const removers = (sources ?? []).map(source => addFlagSource(source));
+    return () => removers.forEach(remove => remove());
+  }, [sources]);
+
+  const value = useMemo(() => ({ user }), [user]);
+
+  return (
+    <FeatureFlagContext.Provider value={value}>
+      {children}
+    </FeatureFlagContext.Provider>
+  );
+};
+
+export default FeatureFlagProvider;
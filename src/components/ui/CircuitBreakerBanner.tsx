@@ -0,0 +1,28 @@
+import React from 'react';
+import { ServerCrash } from 'lucide-react';
+import useErrorStore from '../../store/errorStore';
+
+/**
+ * Banner announcing endpoints whose circuit breaker is open
+ * Shown once for the whole outage instead of a toast per failed request
+ */
+const CircuitBreakerBanner: React.FC = () => {
+  const circuitBreakers = useErrorStore((state) => state.circuitBreakers);
+  const open = Object.values(circuitBreakers).filter(circuit => circuit.state === 'open');
+
+  if (open.length === 0) return null;
+
+  return (
+    <div
+      className="bg-red-600 text-white text-sm px-4 py-2 flex items-center justify-center"
+      role="status"
+      aria-live="polite"
+      title={open.map(circuit => circuit.key).join(', ')}
+    >
+      <ServerCrash className="h-4 w-4 mr-2" />
+      Service temporarily unavailable. We'll try again shortly.
+    </div>
+  );
+};
+
+export default CircuitBreakerBanner;
@@ -1,7 +1,11 @@
 import React from 'react';
 import { AlertCircle, AlertTriangle, XCircle, Info } from 'lucide-react';
 import { ErrorCategory, ErrorResponse, ErrorSeverity } from '../../types';
-import { isFeatureEnabled } from '../../features/featureFlags';
+import useFeatureFlag from '../../hooks/useFeatureFlag';
+import useRetryCountdown from '../../hooks/useRetryCountdown';
+import RetryCountdown from './RetryCountdown';
+import ErrorReference from './ErrorReference';
+import useErrorStore from '../../store/errorStore';
 
 interface ErrorDisplayProps {
   error: ErrorResponse;
@@ -19,7 +23,19 @@ const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
   onDismiss,
   className = '',
 }) => {
-  const { message, severity, category, retry, stack } = error;
+  const { message, severity, category, retry, stack, causes = [] } = error;
+  const retryCountdown = useRetryCountdown(error);
+  const stackTracesEnabled = useFeatureFlag('ENABLE_ERROR_STACK_TRACES');
+  
+  // Occurrence counts are tracked in the global history by fingerprint
+  const tracked = useErrorStore((state) => 
+    error.fingerprint 
+      ? state.errorHistory.find((entry) => entry.fingerprint === error.fingerprint) 
+      : undefined
+  );
+  const occurrences = tracked?.occurrences ?? error.occurrences ?? 1;
+  const firstSeen = tracked?.firstSeen ?? error.firstSeen;
+  const lastSeen = tracked?.lastSeen ?? error.lastSeen;
   
   // Determine styling based on severity
   const getSeverityStyles = (): { bg: string; border: string; text: string; icon: JSX.Element } => {
@@ -59,7 +75,7 @@ const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
   const styles = getSeverityStyles();
   
   // Show stack traces only if feature flag is enabled
-  const showStackTrace = isFeatureEnabled('ENABLE_ERROR_STACK_TRACES') && stack;
+  const showStackTrace = stackTracesEnabled && (stack || causes.length > 0);
 
   return (
     <div className={`rounded-md p-4 ${styles.bg} border ${styles.border} ${className}`}>
@@ -78,14 +94,46 @@ const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
             </p>
           )}
           
+          {occurrences > 1 && (
+            <p 
+              className={`mt-1 text-xs ${styles.text} opacity-80`}
+              title={firstSeen && lastSeen 
+                ? `First seen ${new Date(firstSeen).toLocaleString()}, last seen ${new Date(lastSeen).toLocaleString()}` 
+                : undefined}
+            >
+              Happened {occurrences} times
+            </p>
+          )}
+          
+          {error.requestId && (
+            <ErrorReference reference={error.requestId} className={styles.text} />
+          )}
+          
+          <RetryCountdown error={error} className={styles.text} />
+          
           {showStackTrace && (
             <details className="mt-2">
               <summary className={`text-xs ${styles.text} cursor-pointer`}>
-                Stack Trace
+                {causes.length > 0 ? 'Stack Trace & Causes' : 'Stack Trace'}
               </summary>
-              <pre className={`mt-1 whitespace-pre-wrap text-xs ${styles.text} opacity-75 overflow-auto max-h-40 p-2 rounded bg-white bg-opacity-50`}>
-                {stack}
-              </pre>
+              {stack && (
+                <pre className={`mt-1 whitespace-pre-wrap text-xs ${styles.text} opacity-75 overflow-auto max-h-40 p-2 rounded bg-white bg-opacity-50`}>
+                  {stack}
+                </pre>
+              )}
+              {causes.map((cause, index) => (
+                <div key={index} className="mt-2" style={{ marginLeft: `${(index + 1) * 0.5}rem` }}>
+                  <p className={`text-xs font-medium ${styles.text}`}>
+                    Caused by {cause.name}: {cause.message}
+                    {cause.code !== undefined && ` (${cause.code})`}
+                  </p>
+                  {cause.stack && (
+                    <pre className={`mt-1 whitespace-pre-wrap text-xs ${styles.text} opacity-75 overflow-auto max-h-24 p-2 rounded bg-white bg-opacity-50`}>
+                      {cause.stack}
+                    </pre>
+                  )}
+                </div>
+              ))}
             </details>
           )}
           
@@ -94,7 +142,8 @@ const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
               <button
                 type="button"
                 onClick={onRetry}
-                className={`inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md ${styles.text} bg-white hover:bg-opacity-90 focus:outline-none focus:ring-2 focus:ring-offset-2`}
+                disabled={retryCountdown > 0}
+                className={`inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md ${styles.text} bg-white hover:bg-opacity-90 focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed`}
               >
                 Retry
               </button>
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+
+interface ErrorReferenceProps {
+  reference: string;
+  className?: string;
+}
+
+/**
+ * Copyable "Reference: …" line users can quote to support
+ */
+const ErrorReference: React.FC<ErrorReferenceProps> = ({ reference, className = '' }) => {
+  const [copied, setCopied] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!copied) return;
+
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(reference);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be denied; the reference stays selectable
+    }
+  };
+
+  return (
+    <p className={`mt-1 flex items-center text-xs opacity-80 ${className}`}>
+      Reference:
+      <code className="ml-1 font-mono select-all">{reference}</code>
+      <button
+        type="button"
+        onClick={copy}
+        className="ml-1 inline-flex items-center hover:opacity-70 focus:outline-none"
+        title="Copy reference"
+      >
+        <span className="sr-only">Copy reference</span>
+        {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+      </button>
+    </p>
+  );
+};
+
+export default ErrorReference;
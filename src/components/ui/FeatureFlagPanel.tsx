@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Check, Flag, Link, RotateCcw, X } from 'lucide-react';
+import { FeatureFlag, FeatureFlagValue } from '../../types';
+import { evaluateFlagValue } from '../../features/flagEvaluation';
+import {
+  clearFlagOverrides, createOverridesShareUrl, getFlagOverrides, parseOverrideValue, setFlagOverride
+} from '../../features/flagOverrides';
+import useFeatureFlagStore from '../../store/featureFlagStore';
+
+interface FlagRowProps {
+  flag: FeatureFlag;
+  value: FeatureFlagValue;
+  overridden: boolean;
+}
+
+const formatValue = (value: FeatureFlagValue): string => {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+/**
+ * One flag: description, served value and its source, and override controls
+ * Switches toggle; other values are edited as JSON (or plain strings)
+ */
+const FlagRow: React.FC<FlagRowProps> = ({ flag, value, overridden }) => {
+  const [draft, setDraft] = useState(formatValue(value));
+
+  // Follow the served value when it changes elsewhere (remote update, kill switch)
+  useEffect(() => {
+    setDraft(formatValue(value));
+  }, [value]);
+
+  return (
+    <li className="py-2">
+      <div className="flex items-center justify-between">
+        <span className="font-mono text-xs font-semibold text-gray-800 break-all">{flag.name}</span>
+        {typeof value === 'boolean' ? (
+          <button
+            onClick={() => setFlagOverride(flag.name, !value)}
+            className={`relative inline-flex h-5 w-9 flex-shrink-0 items-center rounded-full ml-2 ${
+              value ? 'bg-green-500' : 'bg-gray-300'
+            }`}
+            aria-label={`${value ? 'Disable' : 'Enable'} ${flag.name}`}
+          >
+            <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition ${
+              value ? 'translate-x-5' : 'translate-x-1'
+            }`} />
+          </button>
+        ) : (
+          <form
+            className="flex items-center ml-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              setFlagOverride(flag.name, parseOverrideValue(draft));
+            }}
+          >
+            <input
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              className="w-36 px-1 py-0.5 border border-gray-300 rounded font-mono text-xs"
+              aria-label={`Value of ${flag.name}`}
+            />
+            <button type="submit" className="ml-1 text-gray-500 hover:text-gray-800" aria-label="Apply">
+              <Check className="h-4 w-4" />
+            </button>
+          </form>
+        )}
+      </div>
+      {flag.description && <p className="text-xs text-gray-500 mt-0.5">{flag.description}</p>}
+      <div className="flex items-center text-xs mt-1 space-x-2">
+        <span className="px-1.5 rounded bg-gray-100 text-gray-600">{flag.source ?? 'default'}</span>
+        {overridden && (
+          <button
+            onClick={() => setFlagOverride(flag.name, undefined)}
+            className="flex items-center text-blue-600 hover:underline"
+          >
+            <RotateCcw className="h-3 w-3 mr-0.5" />
+            Reset
+          </button>
+        )}
+      </div>
+    </li>
+  );
+};
+
+/**
+ * Floating development panel listing every feature flag, grouped by control group
+ * Overrides are kept in localStorage and can be shared as a link (`?ff=NAME:off`)
+ */
+const FeatureFlagPanel: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const flags = useFeatureFlagStore((state) => state.flags);
+  const user = useFeatureFlagStore((state) => state.user);
+
+  // Changing an override re-resolves the flags, which re-renders the panel with fresh overrides
+  const overrides = getFlagOverrides();
+
+  const groups = useMemo(() => {
+    const grouped: Record<string, FeatureFlag[]> = {};
+    Object.values(flags).forEach(flag => {
+      const group = flag.controlGroup ?? 'general';
+      grouped[group] = [...(grouped[group] ?? []), flag];
+    });
+    return Object.entries(grouped).sort(([a], [b]) => a.localeCompare(b));
+  }, [flags]);
+
+  const copyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(createOverridesShareUrl());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard unavailable; nothing to copy to
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="fixed bottom-4 left-4 z-50 flex items-center px-3 py-2 rounded-full bg-slate-800 text-white text-sm shadow-lg hover:bg-slate-700"
+        aria-label="Open feature flags"
+      >
+        <Flag className="h-4 w-4 mr-1" />
+        Flags
+        {Object.keys(overrides).length > 0 && (
+          <span className="ml-1 px-1.5 rounded-full bg-yellow-400 text-slate-900 text-xs">
+            {Object.keys(overrides).length}
+          </span>
+        )}
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 w-96 max-h-[70vh] flex flex-col bg-white rounded-lg shadow-xl border border-gray-200">
+      <div className="flex items-center justify-between px-4 py-2 border-b">
+        <h2 className="font-semibold text-gray-800 flex items-center">
+          <Flag className="h-4 w-4 mr-2" />
+          Feature Flags
+        </h2>
+        <button onClick={() => setOpen(false)} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto px-4">
+        {groups.map(([group, groupFlags]) => (
+          <section key={group} className="py-2">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-400">{group}</h3>
+            <ul className="divide-y divide-gray-100">
+              {groupFlags.map(flag => (
+                <FlagRow
+                  key={flag.name}
+                  flag={flag}
+                  value={evaluateFlagValue(flag, user)}
+                  overridden={flag.name in overrides}
+                />
+              ))}
+            </ul>
+          </section>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between px-4 py-2 border-t text-sm">
+        <button onClick={copyShareLink} className="flex items-center text-blue-600 hover:underline">
+          <Link className="h-4 w-4 mr-1" />
+          {copied ? 'Copied!' : 'Copy share link'}
+        </button>
+        <button
+          onClick={clearFlagOverrides}
+          disabled={Object.keys(overrides).length === 0}
+          className="text-gray-500 hover:text-gray-800 disabled:opacity-40"
+        >
+          Clear overrides
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FeatureFlagPanel;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { WifiOff } from 'lucide-react';
+import useConnectivity from '../../hooks/useConnectivity';
+
+/**
+ * Banner shown across the top of the page while the app is offline
+ */
+const OfflineBanner: React.FC = () => {
+  const { online, source } = useConnectivity();
+
+  if (online) return null;
+
+  return (
+    <div
+      className="bg-amber-500 text-amber-950 text-sm px-4 py-2 flex items-center justify-center"
+      role="status"
+      aria-live="polite"
+    >
+      <WifiOff className="h-4 w-4 mr-2" />
+      {source === 'heartbeat'
+        ? 'We can\'t reach our servers right now. Requests will resume once the connection is back.'
+        : 'You are offline. Requests will resume once your connection is back.'}
+    </div>
+  );
+};
+
+export default OfflineBanner;
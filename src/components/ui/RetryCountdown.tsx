@@ -0,0 +1,27 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { ErrorResponse } from '../../types';
+import useRetryCountdown from '../../hooks/useRetryCountdown';
+
+interface RetryCountdownProps {
+  error: ErrorResponse;
+  className?: string;
+}
+
+/**
+ * Component showing a live countdown until a rate-limited request can be retried
+ */
+const RetryCountdown: React.FC<RetryCountdownProps> = ({ error, className = '' }) => {
+  const remaining = useRetryCountdown(error);
+
+  if (remaining === 0) return null;
+
+  return (
+    <p className={`mt-1 flex items-center text-xs opacity-80 ${className}`} aria-live="polite">
+      <Clock className="h-3 w-3 mr-1" />
+      You can try again in {remaining}s
+    </p>
+  );
+};
+
+export default RetryCountdown;
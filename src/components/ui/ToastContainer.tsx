@@ -1,8 +1,21 @@
-import React, { useEffect } from 'react';
-import { Toaster, toast } from 'react-hot-toast';
+import React, { useEffect, useRef } from 'react';
+import { Toaster, toast, useToasterStore } from 'react-hot-toast';
 import useErrorStore from '../../store/errorStore';
 import { ErrorResponse, ErrorSeverity } from '../../types';
 import { AlertCircle, AlertTriangle, XCircle, Info, X } from 'lucide-react';
+import RetryCountdown from './RetryCountdown';
+import ErrorManager from '../../errors/ErrorManager';
+import { useFlagValue } from '../../hooks/useFeatureFlag';
+import { DEFAULT_RETRY_POLICY } from '../../utils/retryPolicy';
+import { DedupeWindow } from '../../utils/dedupeWindow';
+
+// Rate limit toasts stay up for the countdown, but no longer than a retry would wait
+const MAX_RETRY_AFTER_DURATION_MS = DEFAULT_RETRY_POLICY.maxDelayMs;
+
+// Once a toast was shown, repeats within this window don't bring it back after it is dismissed
+const TOAST_DEDUPE_WINDOW_MS = 60000;
+
+const toastDeduplicator = new DedupeWindow(TOAST_DEDUPE_WINDOW_MS);
 
 /**
  * Component for displaying toast notifications
@@ -10,11 +23,18 @@ import { AlertCircle, AlertTriangle, XCircle, Info, X } from 'lucide-react';
  */
 const ToastContainer: React.FC = () => {
   const { currentError, isErrorVisible, hideError } = useErrorStore();
+  const toastDurations = useFlagValue('TOAST_DURATIONS_MS');
+  const { toasts } = useToasterStore();
+  const toastsRef = useRef(toasts);
+  toastsRef.current = toasts;
 
   // Show toast when error is set in the global store
   useEffect(() => {
     if (currentError && isErrorVisible) {
-      showErrorToast(currentError);
+      // Cancelled requests are never toasted
+      if (!ErrorManager.isCancelled(currentError)) {
+        showErrorToast(currentError);
+      }
       // Auto-hide the error from the store after displaying
       hideError();
     }
@@ -24,6 +44,14 @@ const ToastContainer: React.FC = () => {
    * Show an error toast with styling based on severity
    */
   const showErrorToast = (error: ErrorResponse) => {
+    if (error.fingerprint) {
+      const { allowed } = toastDeduplicator.check(error.fingerprint);
+      const visible = toastsRef.current.some(t => t.id === error.fingerprint && t.visible);
+
+      // A repeat within the window only updates its toast while that is still on screen
+      if (!allowed && !visible) return;
+    }
+
     toast.custom(
       (t) => (
         <div
@@ -37,7 +65,11 @@ const ToastContainer: React.FC = () => {
               <div className="ml-3 flex-1">
                 <p className={`text-sm font-medium ${getToastTextColor(error.severity)}`}>
                   {error.message}
+                  {(error.occurrences ?? 1) > 1 && (
+                    <span className="ml-1 opacity-70">(×{error.occurrences})</span>
+                  )}
                 </p>
+                <RetryCountdown error={error} className={getToastTextColor(error.severity)} />
               </div>
               <div className="ml-4 flex-shrink-0 flex">
                 <button
@@ -53,7 +85,13 @@ const ToastContainer: React.FC = () => {
         </div>
       ),
       {
-        duration: getDurationBySeverity(error.severity),
+        // Repeats of the same error update the visible toast instead of stacking
+        id: error.fingerprint,
+        // Keep rate limit toasts up until the countdown has finished
+        duration: Math.max(
+          getDurationBySeverity(error.severity),
+          Math.min((error.retryAfter ?? 0) * 1000, MAX_RETRY_AFTER_DURATION_MS)
+        ),
         position: 'top-right',
       }
     );
@@ -113,21 +151,10 @@ const ToastContainer: React.FC = () => {
   };
 
   /**
-   * Get toast duration based on error severity
+   * Get toast duration based on error severity (configured by the TOAST_DURATIONS_MS flag)
    */
   const getDurationBySeverity = (severity?: ErrorSeverity): number => {
-    switch (severity) {
-      case ErrorSeverity.CRITICAL:
-        return 8000; // Keep critical errors visible longer
-      case ErrorSeverity.HIGH:
-        return 5000;
-      case ErrorSeverity.MEDIUM:
-        return 4000;
-      case ErrorSeverity.LOW:
-        return 3000;
-      default:
-        return 4000;
-    }
+    return (severity && toastDurations[severity]) || 4000;
   };
 
   return <Toaster />;
@@ -0,0 +1,141 @@
+import { ErrorCategory, ErrorConstructor, ErrorSeverity } from '../types';
+
+/**
+ * Result of classifying an error
+ */
+export interface ErrorClassification {
+  category: ErrorCategory;
+  severity: ErrorSeverity;
+  retry: boolean;
+  userMessage?: string;
+}
+
+/**
+ * Ways a classifier can select the errors it applies to
+ */
+export type ErrorMatcher =
+  | { type: ErrorConstructor }
+  | { name: string }
+  | { code: string | number }
+  | { message: RegExp }
+  | { test: (error: Error) => boolean };
+
+/**
+ * A registered rule mapping matching errors to a classification
+ */
+export interface ErrorClassifier {
+  id: string;
+  match: ErrorMatcher;
+  classify: Partial<ErrorClassification> | ((error: Error) => Partial<ErrorClassification>);
+  // Higher priority classifiers are consulted first
+  priority?: number;
+}
+
+// Built-in heuristics sit below anything a team registers with the default priority
+export const BUILT_IN_CLASSIFIER_PRIORITY = -100;
+
+const DEFAULT_CLASSIFICATION: ErrorClassification = {
+  category: ErrorCategory.UNKNOWN,
+  severity: ErrorSeverity.MEDIUM,
+  retry: true
+};
+
+/**
+ * ErrorClassifierRegistry: Ordered set of rules used to classify standard errors
+ */
+class ErrorClassifierRegistry {
+  private classifiers: ErrorClassifier[] = [];
+
+  /**
+   * Register a classifier, returning a function that removes it again
+   */
+  register(classifier: ErrorClassifier): () => void {
+    this.unregister(classifier.id);
+    this.classifiers.push(classifier);
+
+    // Stable sort keeps registration order for classifiers with equal priority
+    this.classifiers.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+
+    return () => this.unregister(classifier.id);
+  }
+
+  /**
+   * Remove a classifier by id
+   */
+  unregister(id: string): void {
+    this.classifiers = this.classifiers.filter(classifier => classifier.id !== id);
+  }
+
+  /**
+   * Get registered classifiers in the order they are consulted
+   */
+  getClassifiers(): ErrorClassifier[] {
+    return [...this.classifiers];
+  }
+
+  /**
+   * Classify an error using the first matching classifier
+   */
+  classify(error: Error): ErrorClassification {
+    const classifier = this.classifiers.find(candidate => this.matches(candidate.match, error));
+
+    if (!classifier) {
+      return { ...DEFAULT_CLASSIFICATION };
+    }
+
+    const result = typeof classifier.classify === 'function'
+      ? classifier.classify(error)
+      : classifier.classify;
+
+    return { ...DEFAULT_CLASSIFICATION, ...result };
+  }
+
+  /**
+   * Check whether a matcher selects the given error
+   */
+  private matches(matcher: ErrorMatcher, error: Error): boolean {
+    if ('type' in matcher) return error instanceof matcher.type;
+    if ('name' in matcher) return error.name === matcher.name;
+    if ('code' in matcher) return (error as Error & { code?: unknown }).code === matcher.code;
+    if ('message' in matcher) return matcher.message.test(error.message);
+    return matcher.test(error);
+  }
+}
+
+const errorClassifierRegistry = new ErrorClassifierRegistry();
+
+// Message heuristics the ErrorManager has always used, kept as the lowest-priority defaults
+const builtInClassifiers: ErrorClassifier[] = [
+  {
+    id: 'builtin:network',
+    match: { message: /network|fetch|connection/i },
+    classify: { category: ErrorCategory.NETWORK, severity: ErrorSeverity.HIGH }
+  },
+  {
+    id: 'builtin:timeout',
+    match: { message: /timeout|timed out/i },
+    classify: { category: ErrorCategory.NETWORK, severity: ErrorSeverity.MEDIUM }
+  },
+  {
+    id: 'builtin:auth',
+    match: { message: /auth|login|permission/i },
+    classify: { category: ErrorCategory.AUTHENTICATION, severity: ErrorSeverity.HIGH, retry: false }
+  },
+  {
+    id: 'builtin:validation',
+    match: { message: /validate|invalid/i },
+    classify: { category: ErrorCategory.VALIDATION, severity: ErrorSeverity.LOW }
+  },
+  {
+    id: 'builtin:server',
+    match: { message: /server|500/i },
+    classify: { category: ErrorCategory.SERVER, severity: ErrorSeverity.HIGH }
+  }
+];
+
+builtInClassifiers.forEach(classifier =>
+  errorClassifierRegistry.register({ ...classifier, priority: BUILT_IN_CLASSIFIER_PRIORITY })
+);
+
+// Export as singleton so every module shares the same rules
+export default errorClassifierRegistry;
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import ErrorManager from './ErrorManager';
+import { BaseError, ValidationError } from './classes';
+
+describe('ErrorManager.createFromHttpStatus', () => {
+  it('keeps the status mapping for plain 422 responses', () => {
+    const error = ErrorManager.createFromHttpStatus(422, 'Unprocessable', { message: 'Unprocessable' });
+
+    expect(error).toBeInstanceOf(BaseError);
+    expect(error).not.toBeInstanceOf(ValidationError);
+  });
+
+  it('turns problem details with field errors into a ValidationError', () => {
+    const error = ErrorManager.createFromHttpStatus(
+      422,
+      undefined,
+      {
+        type: 'https://example.com/problems/invalid-order',
+        title: 'Invalid order',
+        status: 422,
+        errors: [{ pointer: '#/quantity', detail: 'must be positive' }]
+      },
+      { 'content-type': 'application/problem+json' }
+    );
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.problem?.title).toBe('Invalid order');
+  });
+});
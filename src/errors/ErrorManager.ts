@@ -1,8 +1,36 @@
 import { ErrorCategory, ErrorResponse, ErrorSeverity } from '../types';
 import { 
-  AuthenticationError, AuthorizationError, BaseError, NetworkError, 
-  NotFoundError, RateLimitError, ServerError, ValidationError 
+  AuthenticationError, AuthorizationError, BaseError, BaseErrorOptions, CANCELLED_ERROR_CODE, 
+  CancelledError, ConnectionResetError, CorsError, DnsError, NetworkError, NotFoundError, 
+  OfflineError, RateLimitError, ServerError, ServiceUnavailableError, TimeoutError, ValidationError 
 } from './classes';
+import ErrorClassifier from './ErrorClassifier';
+import { getFingerprint } from './fingerprint';
+import { 
+  AggregateErrorLike, getCauseChain, isAggregateError, serializeCause, serializeCauseChain 
+} from './causes';
+import { 
+  createFromProblemType, getProblemExtensions, getProblemFieldErrors, isProblemDetails 
+} from './problemDetails';
+import { HeaderSource } from '../utils/httpHeaders';
+import { parseRateLimitHeaders } from '../utils/rateLimitHeaders';
+import { parseStackTrace } from '../utils/stackTrace';
+import { getErrorFlags } from '../features/errorFlags';
+import ConnectivityMonitor from '../services/connectivity';
+import axios, { AxiosError } from 'axios';
+
+// Low-level error codes (Node or native adapters) mapped to network error subtypes
+const DNS_ERROR_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'ERR_NAME_NOT_RESOLVED'];
+const CONNECTION_RESET_CODES = ['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'ERR_CONNECTION_RESET'];
+const TIMEOUT_ERROR_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+
+// Ordering used to pick the most severe of several errors
+const SEVERITY_RANK: Record<ErrorSeverity, number> = {
+  [ErrorSeverity.LOW]: 0,
+  [ErrorSeverity.MEDIUM]: 1,
+  [ErrorSeverity.HIGH]: 2,
+  [ErrorSeverity.CRITICAL]: 3
+};
 
 /**
  * ErrorManager: Centralized error handling utility
@@ -13,11 +41,51 @@ class ErrorManager {
    * Process any error and convert it to a standardized ErrorResponse
    */
   handle(error: unknown): ErrorResponse {
+    // Unwrap AggregateError, reporting its most severe inner error
+    if (isAggregateError(error)) {
+      return this.handleAggregateError(error);
+    }
+    
+    // A generic wrapper takes its classification from the first of our errors it wraps
+    const classified = error instanceof BaseError
+      ? error
+      : getCauseChain(error).find((cause): cause is BaseError => cause instanceof BaseError);
+    
+    const handled = this.handleSingle(classified ?? error);
+    
+    // Flags guarding the code that threw, tagged by withFeatureFlag
+    const flags = getErrorFlags(error) ?? getErrorFlags(classified);
+    const response = flags ? { ...handled, flags } : handled;
+    const includeStack = process.env.NODE_ENV !== 'production';
+    const causes = serializeCauseChain(error, includeStack);
+    
+    // Keep the wrapper's own message when the classification came from a cause
+    if (classified && classified !== error) {
+      causes.unshift(serializeCause(error, includeStack));
+    }
+    
+    return causes.length > 0 ? { ...response, causes } : response;
+  }
+
+  /**
+   * Convert a single error, without looking at its causes
+   */
+  private handleSingle(error: unknown): ErrorResponse {
     // If it's already our custom error type, use its properties
     if (error instanceof BaseError) {
       return this.formatErrorResponse(error);
     }
     
+    // Translate failed axios requests using the HTTP response
+    if (axios.isAxiosError(error)) {
+      return this.formatErrorResponse(this.createFromAxiosError(error));
+    }
+    
+    // fetch and AbortController signal cancellation with a DOMException named AbortError
+    if (error instanceof Error && error.name === 'AbortError') {
+      return this.formatErrorResponse(new CancelledError(undefined, undefined, undefined, { cause: error }));
+    }
+    
     // Handle standard Error objects
     if (error instanceof Error) {
       return this.handleStandardError(error);
@@ -32,6 +100,27 @@ class ErrorManager {
     return this.handleUnknownError(error);
   }
 
+  /**
+   * Handle AggregateError by reporting the most severe inner error
+   * All inner errors are listed as causes
+   */
+  private handleAggregateError(error: AggregateErrorLike): ErrorResponse {
+    if (error.errors.length === 0) {
+      return this.handleStandardError(error);
+    }
+    
+    const responses = error.errors.map(inner => this.handle(inner));
+    const primary = responses.reduce((worst, current) => 
+      SEVERITY_RANK[current.severity] > SEVERITY_RANK[worst.severity] ? current : worst
+    );
+    const includeStack = process.env.NODE_ENV !== 'production';
+    
+    return {
+      ...primary,
+      causes: error.errors.map(inner => serializeCause(inner, includeStack))
+    };
+  }
+
   /**
    * Format a BaseError into an ErrorResponse
    */
@@ -44,7 +133,14 @@ class ErrorManager {
       timestamp: error.timestamp,
       data: error.data,
       retry: error.retry,
-      stack: process.env.NODE_ENV !== 'production' ? error.stack : undefined
+      retryAfter: error.retryAfter,
+      problem: error.problem,
+      fingerprint: getFingerprint(error, error),
+      requestId: error.requestId,
+      reported: error.reported,
+      stack: process.env.NODE_ENV !== 'production' ? error.stack : undefined,
+      // Unlike the raw stack, frames are kept in production so reports stay debuggable
+      frames: parseStackTrace(error.stack)
     };
   }
 
@@ -52,39 +148,18 @@ class ErrorManager {
    * Handle standard JS Error objects
    */
   private handleStandardError(error: Error): ErrorResponse {
-    // Try to extract information from the error message for better categorization
-    let category = ErrorCategory.UNKNOWN;
-    let severity = ErrorSeverity.MEDIUM;
-    let retry = true;
-    
-    const lowerMessage = error.message.toLowerCase();
-    
-    // Attempt to categorize based on error message patterns
-    if (lowerMessage.includes('network') || lowerMessage.includes('fetch') || lowerMessage.includes('connection')) {
-      category = ErrorCategory.NETWORK;
-      severity = ErrorSeverity.HIGH;
-    } else if (lowerMessage.includes('timeout') || lowerMessage.includes('timed out')) {
-      category = ErrorCategory.NETWORK;
-      severity = ErrorSeverity.MEDIUM;
-    } else if (lowerMessage.includes('auth') || lowerMessage.includes('login') || lowerMessage.includes('permission')) {
-      category = ErrorCategory.AUTHENTICATION;
-      severity = ErrorSeverity.HIGH;
-      retry = false;
-    } else if (lowerMessage.includes('validate') || lowerMessage.includes('invalid')) {
-      category = ErrorCategory.VALIDATION;
-      severity = ErrorSeverity.LOW;
-    } else if (lowerMessage.includes('server') || lowerMessage.includes('500')) {
-      category = ErrorCategory.SERVER;
-      severity = ErrorSeverity.HIGH;
-    }
+    // Classify using the registered rules, falling back to the built-in heuristics
+    const { category, severity, retry, userMessage } = ErrorClassifier.classify(error);
     
     return {
-      message: error.message,
+      message: userMessage || error.message,
       severity,
       category,
       timestamp: new Date().toISOString(),
       retry,
-      stack: process.env.NODE_ENV !== 'production' ? error.stack : undefined
+      fingerprint: getFingerprint(error, { category, message: error.message }),
+      stack: process.env.NODE_ENV !== 'production' ? error.stack : undefined,
+      frames: parseStackTrace(error.stack)
     };
   }
 
@@ -97,7 +172,8 @@ class ErrorManager {
       severity: ErrorSeverity.MEDIUM,
       category: ErrorCategory.UNKNOWN,
       timestamp: new Date().toISOString(),
-      retry: true
+      retry: true,
+      fingerprint: getFingerprint(undefined, { category: ErrorCategory.UNKNOWN, message: error })
     };
   }
 
@@ -115,38 +191,187 @@ class ErrorManager {
     };
   }
 
+  /**
+   * Create appropriate error instance from a failed axios request
+   * Pass elapsedMs when known so timeouts record how long the request actually ran
+   */
+  createFromAxiosError(error: AxiosError, elapsedMs?: number): BaseError {
+    if (error.code === AxiosError.ERR_CANCELED) {
+      return new CancelledError(undefined, undefined, undefined, { cause: error });
+    }
+    
+    // No response at all means the request never completed
+    if (!error.response) {
+      return this.createNetworkError(error, elapsedMs);
+    }
+    
+    const status = error.response?.status || 0;
+    const data = error.response?.data;
+    const message = 
+      typeof data === 'string' ? data : 
+      typeof data === 'object' && data && 'message' in data ? String(data.message) : 
+      error.message;
+
+    // Keep the axios error as the cause so nothing about the failure is lost
+    return this.createFromHttpStatus(status, message, data, error.response?.headers, { cause: error });
+  }
+
+  /**
+   * Classify a request that failed without a response into a network error subtype
+   */
+  private createNetworkError(error: AxiosError, elapsedMs?: number): NetworkError {
+    const options = { cause: error };
+    const data = { url: error.config?.url, method: error.config?.method };
+    
+    if (!ConnectivityMonitor.isOnline() || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+      return new OfflineError(undefined, undefined, data, true, options);
+    }
+    
+    const code = error.code ?? '';
+    if (TIMEOUT_ERROR_CODES.includes(code)) {
+      const timeoutMs = error.config?.timeout;
+      return new TimeoutError(
+        error.message, 
+        code, 
+        { ...data, timeoutMs, elapsedMs: elapsedMs ?? timeoutMs }, 
+        true, 
+        options
+      );
+    }
+    if (DNS_ERROR_CODES.includes(code)) {
+      return new DnsError(error.message, code, data, false, options);
+    }
+    if (CONNECTION_RESET_CODES.includes(code)) {
+      return new ConnectionResetError(error.message, code, data, true, options);
+    }
+    
+    // Browsers report CORS rejections as a bare network error on cross-origin requests
+    if (code === AxiosError.ERR_NETWORK && this.isCrossOrigin(error)) {
+      return new CorsError(error.message, undefined, data, false, options);
+    }
+    
+    return new NetworkError(error.message, code || undefined, data, true, options);
+  }
+
+  /**
+   * Check whether a failed request targeted another origin
+   */
+  private isCrossOrigin(error: AxiosError): boolean {
+    const url = error.config?.url;
+    if (!url || typeof window === 'undefined') return false;
+    
+    try {
+      const base = new URL(error.config?.baseURL ?? '', window.location.href);
+      const target = new URL(url, base);
+      return target.origin !== window.location.origin;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Create appropriate error instance from HTTP status code and response data
+   * Response headers, when given, supply Retry-After and rate limit details
+   * Problem details bodies (application/problem+json) are mapped onto the error
+   */
+  createFromHttpStatus(
+    status: number, 
+    message?: string, 
+    data?: unknown, 
+    headers?: HeaderSource,
+    options?: BaseErrorOptions
+  ): BaseError {
+    if (!isProblemDetails(data, headers)) {
+      return this.createForStatus(status, message, data, headers, {}, options);
+    }
+
+    const problem = data;
+    const problemStatus = problem.status || status;
+    
+    // A registered problem type decides the error class on its own
+    const error = createFromProblemType(problem, problemStatus) ?? this.createForStatus(
+      problemStatus,
+      problem.detail || problem.title || message,
+      getProblemExtensions(problem),
+      headers,
+      getProblemFieldErrors(problem),
+      options
+    );
+
+    error.problem = problem;
+    error.cause ??= options?.cause;
+    return error;
+  }
+
+  /**
+   * Map an HTTP status code onto the matching error class
    */
-  createFromHttpStatus(status: number, message?: string, data?: unknown): BaseError {
+  private createForStatus(
+    status: number, 
+    message?: string, 
+    data?: unknown, 
+    headers?: HeaderSource,
+    fieldErrors: Record<string, string[]> = {},
+    options?: BaseErrorOptions
+  ): BaseError {
+    // Field level errors mean validation, whatever status the server picked
+    if (Object.keys(fieldErrors).length > 0 && status < 500) {
+      return new ValidationError(message || 'Validation failed', fieldErrors, status, data, true, options);
+    }
+
     switch (true) {
       case status === 400:
-        return new ValidationError(message || 'Bad Request', {}, status, data);
+        return new ValidationError(message || 'Bad Request', fieldErrors, status, data, true, options);
       case status === 401:
-        return new AuthenticationError(message || 'Unauthorized', status, data);
+        return new AuthenticationError(message || 'Unauthorized', status, data, true, options);
       case status === 403:
-        return new AuthorizationError(message || 'Forbidden', status, data);
+        return new AuthorizationError(message || 'Forbidden', status, data, false, options);
       case status === 404:
-        return new NotFoundError(message || 'Not Found', status, data);
-      case status === 429:
-        return new RateLimitError(message || 'Too Many Requests', undefined, status, data);
+        return new NotFoundError(message || 'Not Found', status, data, false, options);
+      case status === 429: {
+        const { retryAfter, rateLimit } = parseRateLimitHeaders(headers);
+        return new RateLimitError(
+          message || 'Too Many Requests', retryAfter, status, data, rateLimit, options
+        );
+      }
+      case status === 503: {
+        const { retryAfter } = parseRateLimitHeaders(headers);
+        return new ServiceUnavailableError(
+          message || 'Service Unavailable', retryAfter, status, data, options
+        );
+      }
       case status >= 500:
-        return new ServerError(message || 'Server Error', status, data);
+        return new ServerError(message || 'Server Error', status, data, true, options);
       default:
         return new BaseError(
           message || `HTTP Error ${status}`, 
           ErrorCategory.UNKNOWN, 
           ErrorSeverity.MEDIUM, 
           status, 
-          data
+          data,
+          false,
+          options
         );
     }
   }
 
+  /**
+   * Check whether an error response came from a cancelled request
+   */
+  isCancelled(error: ErrorResponse): boolean {
+    return error.code === CANCELLED_ERROR_CODE;
+  }
+
   /**
    * Determine if an error should be reported to the monitoring service
    */
   shouldReport(error: ErrorResponse): boolean {
+    // Cancellation is intentional, never an incident
+    if (this.isCancelled(error)) return false;
+    
+    // Already sent by the API client
+    if (error.reported) return false;
+    
     // Don't report validation errors or 404s in production
     if (process.env.NODE_ENV === 'production') {
       if (error.category === ErrorCategory.VALIDATION) return false;
@@ -1,8 +1,12 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { Component, ErrorInfo, ReactNode } from 'react';
+import { Component, ContextType, ErrorInfo, ReactNode } from 'react';
 import ErrorManager from '../ErrorManager';
 import { ErrorResponse } from '../../types';
 import { logErrorToMonitoring } from '../../services/errorLogging';
+import ErrorReference from '../../components/ui/ErrorReference';
+import { withScope } from '../../services/errorScope';
+import { ErrorScopeContext } from '../../hooks/useErrorScope';
+import { recordCaughtError } from '../../features/killSwitches';
 
 interface ErrorBoundaryProps {
   children: ReactNode;
@@ -21,6 +25,10 @@ interface ErrorBoundaryState {
  * Provides fallback UI and error reporting capabilities
  */
 class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  // Tags and extras from surrounding ErrorScope providers
+  static contextType = ErrorScopeContext;
+  declare context: ContextType<typeof ErrorScopeContext>;
+
   constructor(props: ErrorBoundaryProps) {
     super(props);
     this.state = { 
@@ -43,6 +51,7 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
   componentDidCatch(error: Error, errorInfo: ErrorInfo): void {
     // Process the error
     const processedError = ErrorManager.handle(error);
+    recordCaughtError(error, processedError, this.context);
     
     // Log to console in development
     if (process.env.NODE_ENV !== 'production') {
@@ -52,8 +61,11 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
     
     // Report to monitoring service if appropriate
     if (ErrorManager.shouldReport(processedError)) {
-      logErrorToMonitoring(processedError, {
-        componentStack: errorInfo.componentStack
+      withScope((scope) => {
+        scope.apply(this.context);
+        logErrorToMonitoring(processedError, {
+          componentStack: errorInfo.componentStack
+        });
       });
     }
     
@@ -110,6 +122,9 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
           <p className="text-red-600 mb-4">
             {error.message || 'An unexpected error occurred.'}
           </p>
+          {error.requestId && (
+            <ErrorReference reference={error.requestId} className="text-red-700 -mt-3 mb-4" />
+          )}
           <button
             onClick={this.reset}
             className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
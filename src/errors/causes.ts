@@ -0,0 +1,70 @@
+import { ErrorCause } from '../types';
+import { safeStringify } from '../utils/stringify';
+
+/**
+ * Helpers for ES2022 error cause chains and AggregateError
+ */
+
+// Guards against pathological or cyclic chains
+const MAX_CAUSE_DEPTH = 10;
+
+/**
+ * Native AggregateError (typed structurally since the ES2021 lib is not loaded)
+ */
+export interface AggregateErrorLike extends Error {
+  errors: unknown[];
+}
+
+/**
+ * Check whether a value is a native AggregateError
+ */
+export const isAggregateError = (error: unknown): error is AggregateErrorLike => {
+  return error instanceof Error &&
+    error.name === 'AggregateError' &&
+    Array.isArray((error as Partial<AggregateErrorLike>).errors);
+};
+
+/**
+ * Get the errors an error wraps, outermost first, excluding the error itself
+ */
+export const getCauseChain = (error: unknown): unknown[] => {
+  const chain: unknown[] = [];
+  const seen = new Set<unknown>([error]);
+  let current = (error as { cause?: unknown } | null)?.cause;
+
+  while (current !== undefined && current !== null && chain.length < MAX_CAUSE_DEPTH) {
+    if (seen.has(current)) break;
+    seen.add(current);
+    chain.push(current);
+    current = (current as { cause?: unknown }).cause;
+  }
+
+  return chain;
+};
+
+/**
+ * Serialize a single link of a cause chain
+ */
+export const serializeCause = (cause: unknown, includeStack = true): ErrorCause => {
+  if (cause instanceof Error) {
+    const code = (cause as Error & { code?: unknown }).code;
+    return {
+      name: cause.name,
+      message: cause.message,
+      code: typeof code === 'string' || typeof code === 'number' ? code : undefined,
+      stack: includeStack ? cause.stack : undefined
+    };
+  }
+
+  return {
+    name: typeof cause,
+    message: typeof cause === 'string' ? cause : safeStringify(cause)
+  };
+};
+
+/**
+ * Serialize an error's whole cause chain
+ */
+export const serializeCauseChain = (error: unknown, includeStack = true): ErrorCause[] => {
+  return getCauseChain(error).map(cause => serializeCause(cause, includeStack));
+};
@@ -1,5 +1,5 @@
-import { ErrorCategory, ErrorSeverity } from '../../types';
-import { BaseError } from './BaseError';
+import { ErrorCategory, ErrorSeverity, RateLimitInfo } from '../../types';
+import { BaseError, BaseErrorOptions } from './BaseError';
 
 /**
  * ServerError: Represents server-side failures (5xx status codes)
@@ -9,7 +9,8 @@ export class ServerError extends BaseError {
     message = 'Server error occurred',
     code?: string | number,
     data?: unknown,
-    retry = true
+    retry = true,
+    options?: BaseErrorOptions
   ) {
     super(
       message,
@@ -17,7 +18,8 @@ export class ServerError extends BaseError {
       ErrorSeverity.HIGH,
       code,
       data,
-      retry
+      retry,
+      options
     );
   }
 
@@ -26,6 +28,33 @@ export class ServerError extends BaseError {
   }
 }
 
+BaseError.register('ServerError', ServerError);
+
+/**
+ * ServiceUnavailableError: Represents temporary outages (503 status code)
+ */
+export class ServiceUnavailableError extends ServerError {
+  constructor(
+    message = 'Service unavailable',
+    retryAfter?: number,
+    code?: string | number,
+    data?: unknown,
+    options?: BaseErrorOptions
+  ) {
+    super(message, code || 503, data, true, options);
+    
+    this.retryAfter = retryAfter;
+  }
+
+  getUserMessage(): string {
+    return this.retryAfter
+      ? `The service is temporarily unavailable. Please try again in ${this.retryAfter} seconds.`
+      : 'The service is temporarily unavailable. Please try again later.';
+  }
+}
+
+BaseError.register('ServiceUnavailableError', ServiceUnavailableError);
+
 /**
  * NotFoundError: Represents 404 Not Found responses
  */
@@ -34,7 +63,8 @@ export class NotFoundError extends BaseError {
     message = 'Resource not found',
     code?: string | number,
     data?: unknown,
-    retry = false
+    retry = false,
+    options?: BaseErrorOptions
   ) {
     super(
       message,
@@ -42,7 +72,8 @@ export class NotFoundError extends BaseError {
       ErrorSeverity.MEDIUM,
       code || 404,
       data,
-      retry
+      retry,
+      options
     );
   }
 
@@ -51,17 +82,21 @@ export class NotFoundError extends BaseError {
   }
 }
 
+BaseError.register('NotFoundError', NotFoundError);
+
 /**
  * RateLimitError: Represents rate limiting responses
  */
 export class RateLimitError extends BaseError {
-  retryAfter?: number;
+  rateLimit?: RateLimitInfo;
 
   constructor(
     message = 'Rate limit exceeded',
     retryAfter?: number,
     code?: string | number,
-    data?: unknown
+    data?: unknown,
+    rateLimit?: RateLimitInfo,
+    options?: BaseErrorOptions
   ) {
     super(
       message,
@@ -69,10 +104,12 @@ export class RateLimitError extends BaseError {
       ErrorSeverity.MEDIUM,
       code || 429,
       data,
-      true
+      true,
+      options
     );
     
     this.retryAfter = retryAfter;
+    this.rateLimit = rateLimit;
   }
 
   getUserMessage(): string {
@@ -80,4 +117,6 @@ export class RateLimitError extends BaseError {
       ? `Request limit reached. Please try again in ${this.retryAfter} seconds.`
       : 'Request limit reached. Please try again later.';
   }
-}
\ No newline at end of file
+}
+
+BaseError.register('RateLimitError', RateLimitError);
@@ -1,5 +1,5 @@
 import { ErrorCategory, ErrorSeverity } from '../../types';
-import { BaseError } from './BaseError';
+import { BaseError, BaseErrorOptions } from './BaseError';
 
 /**
  * AuthenticationError: Represents authentication failures
@@ -9,7 +9,8 @@ export class AuthenticationError extends BaseError {
     message = 'Authentication failed',
     code?: string | number,
     data?: unknown,
-    retry = true
+    retry = true,
+    options?: BaseErrorOptions
   ) {
     super(
       message,
@@ -17,7 +18,8 @@ export class AuthenticationError extends BaseError {
       ErrorSeverity.HIGH,
       code,
       data,
-      retry
+      retry,
+      options
     );
   }
 
@@ -26,6 +28,8 @@ export class AuthenticationError extends BaseError {
   }
 }
 
+BaseError.register('AuthenticationError', AuthenticationError);
+
 /**
  * AuthorizationError: Represents permission/access related failures
  */
@@ -34,7 +38,8 @@ export class AuthorizationError extends BaseError {
     message = 'Not authorized',
     code?: string | number,
     data?: unknown,
-    retry = false
+    retry = false,
+    options?: BaseErrorOptions
   ) {
     super(
       message,
@@ -42,7 +47,8 @@ export class AuthorizationError extends BaseError {
       ErrorSeverity.HIGH,
       code,
       data,
-      retry
+      retry,
+      options
     );
   }
 
@@ -51,6 +57,8 @@ export class AuthorizationError extends BaseError {
   }
 }
 
+BaseError.register('AuthorizationError', AuthorizationError);
+
 /**
  * SessionExpiredError: Represents expired user session
  */
@@ -58,12 +66,15 @@ export class SessionExpiredError extends AuthenticationError {
   constructor(
     message = 'Session expired',
     code?: string | number,
-    data?: unknown
+    data?: unknown,
+    options?: BaseErrorOptions
   ) {
-    super(message, code, data, true);
+    super(message, code, data, true, options);
   }
 
   getUserMessage(): string {
     return 'Your session has expired. Please log in again.';
   }
-}
\ No newline at end of file
+}
+
+BaseError.register('SessionExpiredError', SessionExpiredError);
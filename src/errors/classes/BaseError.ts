@@ -1,4 +1,63 @@
-import { ErrorCategory, ErrorSeverity } from '../../types';
+import { ErrorCategory, ErrorConstructor, ErrorSeverity, ProblemDetails } from '../../types';
+import { serializeCauseChain } from '../causes';
+
+/**
+ * Options accepted by every error class (mirrors the ES2022 ErrorOptions)
+ */
+export interface BaseErrorOptions {
+  cause?: unknown;
+}
+
+/**
+ * Plain JSON form of an error, safe for postMessage, storage or the network
+ */
+export interface SerializedError {
+  // Registered class name used to rehydrate the right subclass
+  __type: string;
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+  [property: string]: unknown;
+}
+
+/**
+ * Constructor of a registrable error class
+ */
+export type ErrorClass = ErrorConstructor<BaseError>;
+
+// Registered names are explicit so they survive minification
+const errorClasses = new Map<string, ErrorClass>();
+const errorClassNames = new Map<ErrorClass, string>();
+
+const isSerializedError = (value: unknown): value is SerializedError => {
+  return typeof value === 'object' && value !== null && 
+    typeof (value as SerializedError).__type === 'string';
+};
+
+/**
+ * Serialize a cause, keeping nested class identity where possible
+ */
+const serializeCauseValue = (cause: unknown): unknown => {
+  if (cause instanceof BaseError) return cause.toJSON();
+  if (cause instanceof Error) {
+    return { __type: 'Error', name: cause.name, message: cause.message, stack: cause.stack };
+  }
+  return cause;
+};
+
+/**
+ * Rehydrate a cause produced by serializeCauseValue
+ */
+const deserializeCauseValue = (cause: unknown): unknown => {
+  if (!isSerializedError(cause)) return cause;
+  if (errorClasses.has(cause.__type)) return BaseError.fromJSON(cause);
+
+  const error = new Error(cause.message);
+  error.name = cause.name;
+  error.stack = cause.stack;
+  return error;
+};
 
 /**
  * BaseError: Foundation for all custom error classes
@@ -11,6 +70,16 @@ export class BaseError extends Error {
   code?: string | number;
   data?: unknown;
   retry?: boolean;
+  // Seconds the server asked us to wait before retrying, if it said so
+  retryAfter?: number;
+  // Problem details returned by the server, when the response used problem+json
+  problem?: ProblemDetails;
+  // The underlying error this one wraps
+  cause?: unknown;
+  // Correlation ID of the failed request, as echoed by the server when it did
+  requestId?: string;
+  // Set once the error has been sent to monitoring, so it isn't reported twice
+  reported?: boolean;
 
   constructor(
     message: string, 
@@ -18,7 +87,8 @@ export class BaseError extends Error {
     severity: ErrorSeverity = ErrorSeverity.MEDIUM,
     code?: string | number,
     data?: unknown,
-    retry = false
+    retry = false,
+    options?: BaseErrorOptions
   ) {
     super(message);
     
@@ -32,6 +102,7 @@ export class BaseError extends Error {
     this.code = code;
     this.data = data;
     this.retry = retry;
+    this.cause = options?.cause;
     
     // Maintains proper stack trace for where error was thrown (V8 only)
     if (Error.captureStackTrace) {
@@ -59,6 +130,7 @@ export class BaseError extends Error {
       code: this.code,
       timestamp: this.timestamp,
       stack: this.stack,
+      causes: this.cause !== undefined ? serializeCauseChain(this) : undefined,
     }, null, 2);
   }
 
@@ -68,4 +140,59 @@ export class BaseError extends Error {
   canRetry(): boolean {
     return this.retry === true;
   }
-}
\ No newline at end of file
+
+  /**
+   * Serialize the error, including subclass fields such as fieldErrors or retryAfter
+   * Also used by JSON.stringify
+   */
+  toJSON(): SerializedError {
+    const { cause, ...properties } = { ...this } as Record<string, unknown>;
+
+    return {
+      ...properties,
+      __type: errorClassNames.get(this.constructor as ErrorClass) ?? 'BaseError',
+      name: this.name,
+      message: this.message,
+      stack: this.stack,
+      cause: cause !== undefined ? serializeCauseValue(cause) : undefined,
+    };
+  }
+
+  /**
+   * Register an error class so fromJSON can rehydrate it
+   * Custom subclasses should register themselves next to their definition
+   */
+  static register(type: string, errorClass: ErrorClass): void {
+    errorClasses.set(type, errorClass);
+    errorClassNames.set(errorClass, type);
+  }
+
+  /**
+   * Rehydrate an error produced by toJSON (or its JSON string)
+   * Unregistered types fall back to BaseError
+   */
+  static fromJSON(json: SerializedError | string): BaseError {
+    const serialized: SerializedError = typeof json === 'string' ? JSON.parse(json) : json;
+    const { __type, cause, ...properties } = serialized;
+    const errorClass = errorClasses.get(__type) ?? BaseError;
+
+    // Skip the constructor so subclass defaults don't overwrite the saved state
+    const error: BaseError = Object.create(errorClass.prototype);
+    Object.assign(error, properties);
+
+    if (cause !== undefined) {
+      error.cause = deserializeCauseValue(cause);
+    }
+
+    return error;
+  }
+
+  /**
+   * Check whether a value looks like the output of toJSON
+   */
+  static isSerialized(value: unknown): value is SerializedError {
+    return isSerializedError(value);
+  }
+}
+
+BaseError.register('BaseError', BaseError);
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { ErrorCategory, ErrorSeverity } from '../../types';
-import { BaseError } from './BaseError';
+import { BaseError, BaseErrorOptions } from './BaseError';
 
 /**
  * NetworkError: Represents errors related to network connectivity issues
@@ -9,7 +9,8 @@ export class NetworkError extends BaseError {
     message = 'Network connection issue',
     code?: string | number,
     data?: unknown,
-    retry = true
+    retry = true,
+    options?: BaseErrorOptions
   ) {
     super(
       message,
@@ -17,7 +18,8 @@ export class NetworkError extends BaseError {
       ErrorSeverity.HIGH,
       code,
       data,
-      retry
+      retry,
+      options
     );
   }
 
@@ -26,6 +28,8 @@ export class NetworkError extends BaseError {
   }
 }
 
+BaseError.register('NetworkError', NetworkError);
+
 /**
  * TimeoutError: Specialized network error for timeouts
  */
@@ -34,13 +38,102 @@ export class TimeoutError extends NetworkError {
     message = 'Request timed out',
     code?: string | number,
     data?: unknown,
-    retry = true
+    retry = true,
+    options?: BaseErrorOptions
   ) {
-    super(message, code, data, retry);
+    super(message, code, data, retry, options);
     this.severity = ErrorSeverity.MEDIUM;
   }
 
   getUserMessage(): string {
     return 'The request is taking longer than expected. Please try again later.';
   }
-}
\ No newline at end of file
+}
+
+BaseError.register('TimeoutError', TimeoutError);
+
+/**
+ * OfflineError: The device has no network connection
+ */
+export class OfflineError extends NetworkError {
+  constructor(
+    message = 'Device is offline',
+    code: string | number = 'ERR_OFFLINE',
+    data?: unknown,
+    retry = true,
+    options?: BaseErrorOptions
+  ) {
+    super(message, code, data, retry, options);
+    this.severity = ErrorSeverity.MEDIUM;
+  }
+
+  getUserMessage(): string {
+    return 'You appear to be offline. We will try again once your connection is back.';
+  }
+}
+
+BaseError.register('OfflineError', OfflineError);
+
+/**
+ * DnsError: The server's host name could not be resolved
+ */
+export class DnsError extends NetworkError {
+  constructor(
+    message = 'Host name could not be resolved',
+    code: string | number = 'ERR_NAME_NOT_RESOLVED',
+    data?: unknown,
+    retry = false,
+    options?: BaseErrorOptions
+  ) {
+    super(message, code, data, retry, options);
+  }
+
+  getUserMessage(): string {
+    return 'We could not find the server. Please check the address or try again later.';
+  }
+}
+
+BaseError.register('DnsError', DnsError);
+
+/**
+ * CorsError: The browser blocked a cross-origin request
+ * Browsers hide the reason, so this is inferred for failed cross-origin requests while online
+ */
+export class CorsError extends NetworkError {
+  constructor(
+    message = 'Cross-origin request was blocked',
+    code: string | number = 'ERR_CORS',
+    data?: unknown,
+    retry = false,
+    options?: BaseErrorOptions
+  ) {
+    super(message, code, data, retry, options);
+  }
+
+  getUserMessage(): string {
+    return 'The request was blocked by the browser. Please contact support if this keeps happening.';
+  }
+}
+
+BaseError.register('CorsError', CorsError);
+
+/**
+ * ConnectionResetError: The connection was reset, refused or dropped mid-request
+ */
+export class ConnectionResetError extends NetworkError {
+  constructor(
+    message = 'Connection was reset',
+    code: string | number = 'ERR_CONNECTION_RESET',
+    data?: unknown,
+    retry = true,
+    options?: BaseErrorOptions
+  ) {
+    super(message, code, data, retry, options);
+  }
+
+  getUserMessage(): string {
+    return 'The connection to the server was interrupted. Please try again.';
+  }
+}
+
+BaseError.register('ConnectionResetError', ConnectionResetError);
@@ -0,0 +1,60 @@
+import { ErrorCategory, ErrorSeverity } from '../../types';
+import { BaseError, BaseErrorOptions } from './BaseError';
+
+export const CANCELLED_ERROR_CODE = 'ERR_CANCELED';
+
+/**
+ * CancelledError: A request was aborted on purpose (unmount, newer call, explicit cancel)
+ * Cancellation is expected, so these errors are never shown or reported
+ */
+export class CancelledError extends BaseError {
+  constructor(
+    message = 'Request was cancelled',
+    code: string | number = CANCELLED_ERROR_CODE,
+    data?: unknown,
+    options?: BaseErrorOptions
+  ) {
+    super(
+      message,
+      ErrorCategory.CLIENT,
+      ErrorSeverity.LOW,
+      code,
+      data,
+      false,
+      options
+    );
+  }
+}
+
+BaseError.register('CancelledError', CancelledError);
+
+/**
+ * CircuitOpenError: A request was refused locally because its endpoint's circuit is open
+ */
+export class CircuitOpenError extends BaseError {
+  constructor(
+    message = 'Service temporarily unavailable',
+    retryAfter?: number,
+    code: string | number = 'ERR_CIRCUIT_OPEN',
+    data?: unknown,
+    options?: BaseErrorOptions
+  ) {
+    super(
+      message,
+      ErrorCategory.SERVER,
+      ErrorSeverity.LOW,
+      code,
+      data,
+      false,
+      options
+    );
+
+    this.retryAfter = retryAfter;
+  }
+
+  getUserMessage(): string {
+    return 'This service is temporarily unavailable. Please try again shortly.';
+  }
+}
+
+BaseError.register('CircuitOpenError', CircuitOpenError);
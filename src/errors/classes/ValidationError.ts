@@ -1,5 +1,5 @@
 import { ErrorCategory, ErrorSeverity } from '../../types';
-import { BaseError } from './BaseError';
+import { BaseError, BaseErrorOptions } from './BaseError';
 
 /**
  * ValidationError: Represents client-side or server-side validation failures
@@ -12,7 +12,8 @@ export class ValidationError extends BaseError {
     fieldErrors: Record<string, string[]> = {},
     code?: string | number,
     data?: unknown,
-    retry = true
+    retry = true,
+    options?: BaseErrorOptions
   ) {
     super(
       message,
@@ -20,7 +21,8 @@ export class ValidationError extends BaseError {
       ErrorSeverity.MEDIUM,
       code,
       data,
-      retry
+      retry,
+      options
     );
     
     this.fieldErrors = fieldErrors;
@@ -65,4 +67,6 @@ export class ValidationError extends BaseError {
   getFieldErrors(fieldName: string): string[] {
     return this.fieldErrors[fieldName] || [];
   }
-}
\ No newline at end of file
+}
+
+BaseError.register('ValidationError', ValidationError);
@@ -4,5 +4,6 @@ export * from './NetworkError';
 export * from './AuthErrors';
 export * from './ValidationError';
 export * from './ApiErrors';
+export * from './RequestErrors';
 
 // Additional exports to create a unified error system
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ErrorCategory } from '../types';
+import { getFingerprint, getTopStackFrames, normalizeFrameFile, normalizeMessage } from './fingerprint';
+
+describe('normalizeMessage', () => {
+  it('replaces volatile parts', () => {
+    expect(normalizeMessage('User 42 not found at https://api.example.com/users/42'))
+      .toBe('user <n> not found at <url>');
+    expect(normalizeMessage("Order '3f2a' failed: 123e4567-e89b-12d3-a456-426614174000"))
+      .toBe('order <str> failed: <uuid>');
+  });
+});
+
+describe('normalizeFrameFile', () => {
+  it('strips the origin, query and bundle content hash', () => {
+    expect(normalizeFrameFile('https://app.example.com/assets/index-Bx12abCD.js?v=1')).toBe('/assets/index.js');
+    expect(normalizeFrameFile('http://localhost:5173/src/App.tsx?t=123')).toBe('/src/App.tsx');
+  });
+});
+
+describe('getFingerprint', () => {
+  const source = { category: ErrorCategory.SERVER, code: 500, message: 'Server error' };
+
+  const createError = (name: string, file: string, message = 'Request 17 failed') => {
+    const error = new Error(message);
+    error.name = name;
+    error.stack = `${name}: ${message}\n    at loadUsers (${file}:1:2345)\n    at onClick (${file}:1:999)`;
+    return error;
+  };
+
+  it('is stable across builds with renamed classes and rehashed bundles', () => {
+    const before = createError('e', 'https://app.example.com/assets/index-Bx12abCD.js');
+    const after = createError('t', 'https://app.example.com/assets/index-Zq98xyWV.js');
+
+    expect(getFingerprint(before, source)).toBe(getFingerprint(after, source));
+  });
+
+  it('groups messages differing only in volatile parts', () => {
+    const file = '/assets/index-Bx12abCD.js';
+
+    expect(getFingerprint(createError('Error', file, 'Request 17 failed'), source))
+      .toBe(getFingerprint(createError('Error', file, 'Request 18 failed'), source));
+    expect(getFingerprint(createError('Error', file, 'Request 17 failed'), source))
+      .not.toBe(getFingerprint(createError('Error', file, 'Upload failed'), source));
+  });
+
+  it('reads the top frames without line numbers', () => {
+    const error = createError('Error', '/src/users.ts');
+
+    expect(getTopStackFrames(error.stack, 1)).toEqual(['loadUsers@/src/users.ts']);
+  });
+});
@@ -0,0 +1,143 @@
+import { ErrorCategory, ErrorConstructor } from '../types';
+import { parseStackTrace } from '../utils/stackTrace';
+import { fnv1a } from '../utils/hash';
+
+/**
+ * Error fingerprinting
+ * Groups occurrences of the same problem under an identifier built from category,
+ * code, a normalized message and the top stack frames. Nothing that changes between
+ * builds is used: class names and function names are minified in production, and
+ * bundle file names carry a content hash, so frames keep only the hash-stripped file
+ * (plus the function name outside production)
+ */
+
+/**
+ * Per-class fingerprint settings
+ */
+export interface FingerprintOptions {
+  // Number of stack frames to include (0 ignores the stack)
+  stackFrames?: number;
+  // Whether the normalized message is part of the fingerprint
+  includeMessage?: boolean;
+  // Whether the error code is part of the fingerprint
+  includeCode?: boolean;
+  // Fully custom components, replacing the defaults above
+  components?: (error: Error) => Array<string | number | undefined>;
+}
+
+/**
+ * Fields of a processed error used when no Error instance is available
+ */
+interface FingerprintSource {
+  category: ErrorCategory;
+  code?: string | number;
+  message: string;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<FingerprintOptions, 'components'>> = {
+  stackFrames: 3,
+  includeMessage: true,
+  includeCode: true
+};
+
+const classOptions = new Map<ErrorConstructor, FingerprintOptions>();
+
+/**
+ * Configure how errors of a class (and its subclasses) are fingerprinted
+ */
+export const configureFingerprint = (
+  errorClass: ErrorConstructor,
+  options: FingerprintOptions
+): void => {
+  classOptions.set(errorClass, options);
+};
+
+/**
+ * Find the options for the closest configured class in the prototype chain
+ */
+const getOptions = (error: Error): FingerprintOptions => {
+  let prototype = Object.getPrototypeOf(error);
+
+  while (prototype && prototype !== Object.prototype) {
+    const options = classOptions.get(prototype.constructor);
+    if (options) return { ...DEFAULT_OPTIONS, ...options };
+    prototype = Object.getPrototypeOf(prototype);
+  }
+
+  return DEFAULT_OPTIONS;
+};
+
+/**
+ * Replace volatile parts of a message (ids, numbers, quoted values, URLs)
+ * so that occurrences differing only in those parts group together
+ */
+export const normalizeMessage = (message: string): string => {
+  return message
+    .toLowerCase()
+    .replace(/https?:\/\/[^\s'"]+/g, '<url>')
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/g, '<uuid>')
+    .replace(/\b0x[0-9a-f]+\b|\b[0-9a-f]{16,}\b/g, '<hex>')
+    .replace(/(["'`]).*?\1/g, '<str>')
+    .replace(/\d+/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Strip what changes between deploys from a frame's file: the origin, query string
+ * and the content hash in bundle names ("/assets/index-Bx12abCD.js" -> "/assets/index.js")
+ */
+export const normalizeFrameFile = (file: string): string => {
+  return file
+    .replace(/[?#].*$/, '')
+    .replace(/^[a-z][\w+.-]*:\/\/[^/]*/i, '')
+    .replace(/-[\w-]{8}(?=\.m?js$)/, '');
+};
+
+/**
+ * Extract the top frames of a V8 or Firefox/Safari stack as "function@file"
+ * Line and column numbers are left out since they change with every build, and
+ * function names in production since they are minified
+ */
+export const getTopStackFrames = (stack: string | undefined, count: number): string[] => {
+  if (count <= 0) return [];
+
+  const includeFunction = process.env.NODE_ENV !== 'production';
+
+  return parseStackTrace(stack)
+    .slice(0, count)
+    .map(frame => {
+      const file = normalizeFrameFile(frame.file);
+      return includeFunction ? `${frame.function || '<anonymous>'}@${file}` : file;
+    });
+};
+
+/**
+ * 32-bit FNV-1a hash rendered as hex
+ */
+const hash = (input: string): string => fnv1a(input).toString(16).padStart(8, '0');
+
+/**
+ * Compute the fingerprint of an error
+ * Pass the processed fields when the error has been classified separately
+ */
+export const getFingerprint = (
+  error: Error | undefined,
+  source: FingerprintSource
+): string => {
+  if (!error) {
+    return hash([source.category, source.code, normalizeMessage(source.message)].join('|'));
+  }
+
+  const options = getOptions(error);
+  const components = options.components
+    ? options.components(error)
+    : [
+        source.category,
+        options.includeCode ? source.code : undefined,
+        options.includeMessage ? normalizeMessage(error.message) : undefined,
+        ...getTopStackFrames(error.stack, options.stackFrames ?? DEFAULT_OPTIONS.stackFrames)
+      ];
+
+  return hash(components.map(component => component ?? '').join('|'));
+};
@@ -0,0 +1,121 @@
+import { ProblemDetails } from '../types';
+import { BaseError } from './classes';
+import { HeaderSource, readHeader } from '../utils/httpHeaders';
+
+/**
+ * Problem details support (RFC 9457, formerly RFC 7807)
+ * Recognizes application/problem+json bodies and maps them onto our error classes
+ */
+
+/**
+ * Factory creating a specific error class for a problem type URI
+ */
+export type ProblemErrorFactory = (problem: ProblemDetails, status: number) => BaseError;
+
+const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+const STANDARD_MEMBERS = ['type', 'title', 'status', 'detail', 'instance'];
+
+const problemTypes = new Map<string, ProblemErrorFactory>();
+
+/**
+ * Register the error class to create for a problem type URI
+ */
+export const registerProblemType = (type: string, factory: ProblemErrorFactory): void => {
+  problemTypes.set(type, factory);
+};
+
+/**
+ * Remove a previously registered problem type
+ */
+export const unregisterProblemType = (type: string): void => {
+  problemTypes.delete(type);
+};
+
+/**
+ * Create the registered error for a problem's type URI, if one is registered
+ */
+export const createFromProblemType = (
+  problem: ProblemDetails,
+  status: number
+): BaseError | undefined => {
+  const factory = problem.type ? problemTypes.get(problem.type) : undefined;
+  return factory?.(problem, status);
+};
+
+/**
+ * Check whether a response body is a problem details object
+ * The content type is authoritative; without it the body shape is used
+ */
+export const isProblemDetails = (data: unknown, headers?: HeaderSource): data is ProblemDetails => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return false;
+  }
+
+  const contentType = readHeader(headers, 'Content-Type');
+  if (contentType?.toLowerCase().includes(PROBLEM_CONTENT_TYPE)) {
+    return true;
+  }
+
+  const candidate = data as Record<string, unknown>;
+  return (typeof candidate.type === 'string' || typeof candidate.title === 'string') &&
+    (typeof candidate.status === 'number' || typeof candidate.detail === 'string');
+};
+
+/**
+ * Get the extension members of a problem, i.e. everything except the standard members
+ */
+export const getProblemExtensions = (problem: ProblemDetails): Record<string, unknown> => {
+  return Object.fromEntries(
+    Object.entries(problem).filter(([key]) => !STANDARD_MEMBERS.includes(key))
+  );
+};
+
+/**
+ * Convert a JSON pointer such as "#/address/street" into a field path "address.street"
+ */
+const pointerToField = (pointer: string): string => {
+  return pointer
+    .replace(/^#?\//, '')
+    .split('/')
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .join('.');
+};
+
+const addFieldError = (fieldErrors: Record<string, string[]>, field: string, message: string) => {
+  fieldErrors[field] = [...(fieldErrors[field] || []), message];
+};
+
+/**
+ * Collect field errors from the "errors" or "invalid-params" members
+ * Supports arrays of { name | pointer | field, reason | detail | message } and
+ * objects mapping field names to one or more messages
+ */
+export const getProblemFieldErrors = (problem: ProblemDetails): Record<string, string[]> => {
+  const fieldErrors: Record<string, string[]> = {};
+  const source = problem['invalid-params'] ?? problem.errors;
+
+  if (Array.isArray(source)) {
+    source.forEach(entry => {
+      if (!entry || typeof entry !== 'object') return;
+
+      const item = entry as Record<string, unknown>;
+      const rawField = item.name ?? item.field ?? item.property ?? item.pointer;
+      const message = item.reason ?? item.detail ?? item.message;
+      if (typeof message !== 'string') return;
+
+      const field = typeof item.pointer === 'string' && rawField === item.pointer
+        ? pointerToField(item.pointer)
+        : typeof rawField === 'string' ? rawField : '_';
+
+      addFieldError(fieldErrors, field, message);
+    });
+  } else if (source && typeof source === 'object') {
+    Object.entries(source as Record<string, unknown>).forEach(([field, messages]) => {
+      (Array.isArray(messages) ? messages : [messages])
+        .filter((message): message is string => typeof message === 'string')
+        .forEach(message => addFieldError(fieldErrors, field, message));
+    });
+  }
+
+  return fieldErrors;
+};
@@ -0,0 +1,27 @@
+import { FeatureFlagValue } from '../types';
+
+/**
+ * Flags attached to thrown errors
+ * Code run behind a flag (e.g. through withFeatureFlag) tags the errors it throws,
+ * so ErrorManager.handle can tell which flags guarded the code that failed
+ */
+
+const errorFlags = new WeakMap<object, Record<string, FeatureFlagValue>>();
+
+/**
+ * Tag an error with flags, returning the error so it can be rethrown
+ * Primitive values (e.g. thrown strings) can't be tagged and are returned unchanged
+ */
+export const tagErrorWithFlags = <E>(error: E, flags: Record<string, FeatureFlagValue>): E => {
+  if (error && typeof error === 'object') {
+    errorFlags.set(error, { ...errorFlags.get(error), ...flags });
+  }
+  return error;
+};
+
+/**
+ * Get the flags an error was tagged with
+ */
+export const getErrorFlags = (error: unknown): Record<string, FeatureFlagValue> | undefined => {
+  return error && typeof error === 'object' ? errorFlags.get(error) : undefined;
+};
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { FeatureFlagDefinitions } from '../types';
+import {
+  addFlagSource, getAllFeatureFlags, getFeatureFlag, getFlagValue, isFeatureEnabled, refreshFeatureFlags,
+  removeFlagSource
+} from './featureFlags';
+import { createStaticSource } from './flagSources';
+
+describe('flag sources', () => {
+  afterEach(() => {
+    removeFlagSource('static');
+  });
+
+  it('applies definitions for known flags', async () => {
+    addFlagSource(createStaticSource({ ENABLE_CIRCUIT_BREAKER: false, RETRY_MAX_ATTEMPTS: { value: 5 } }));
+    await refreshFeatureFlags();
+
+    expect(isFeatureEnabled('ENABLE_CIRCUIT_BREAKER')).toBe(false);
+    expect(getFlagValue('RETRY_MAX_ATTEMPTS')).toBe(5);
+  });
+
+  it('ignores unknown flags, __proto__ keys and malformed definitions', async () => {
+    // Parsed like a remote response, so __proto__ is an own key
+    const definitions: FeatureFlagDefinitions = JSON.parse(
+      '{"__proto__": {"enabled": false}, "UNKNOWN_FLAG": true, "ENABLE_CIRCUIT_BREAKER": {"enabled": "no"}}'
+    );
+    addFlagSource(createStaticSource(definitions));
+    await refreshFeatureFlags();
+
+    expect(getFeatureFlag('UNKNOWN_FLAG')).toBeUndefined();
+    expect(Object.keys(getAllFeatureFlags())).not.toContain('__proto__');
+    expect(Object.getPrototypeOf(getAllFeatureFlags())).toBe(Object.prototype);
+    expect(isFeatureEnabled('ENABLE_CIRCUIT_BREAKER')).toBe(true);
+  });
+
+  it('ignores a source serving something other than an object', async () => {
+    addFlagSource({ id: 'static', load: () => JSON.parse('["ENABLE_CIRCUIT_BREAKER"]') });
+    await refreshFeatureFlags();
+
+    expect(getFeatureFlag('0')).toBeUndefined();
+    expect(isFeatureEnabled('ENABLE_CIRCUIT_BREAKER')).toBe(true);
+  });
+});
@@ -1,12 +1,29 @@
-import { FeatureFlag, FeatureFlagMap } from '../types';
+import { 
+  ErrorSeverity, FeatureFlag, FeatureFlagDefinitions, FeatureFlagMap, FeatureFlagName, 
+  FeatureFlagSchema, FeatureFlagValue, UserContext 
+} from '../types';
+import { getCurrentScope, onUserChange } from '../services/errorScope';
+import useFeatureFlagStore from '../store/featureFlagStore';
+import { evaluateFlag, evaluateFlagValue } from './flagEvaluation';
+import { FlagSource } from './flagSources';
+import { tagErrorWithFlags } from './errorFlags';
 
 /**
  * Feature Flag Management
- * Mock implementation to demonstrate feature flag based error handling
+ * The flags below are defaults. Flag sources (static, remote, localStorage overrides)
+ * are layered over them in the order they are added, and every check is evaluated
+ * against the current user's targeting rules and rollouts
  */
 
+/**
+ * Default definition of every flag in the schema, typed by the value it serves
+ */
+type FeatureFlagDefaults = {
+  [N in FeatureFlagName]: FeatureFlag<FeatureFlagSchema[N]>;
+};
+
 // Define all available feature flags
-const featureFlags: FeatureFlagMap = {
+const defaultFlags: FeatureFlagDefaults = {
   ENABLE_ERROR_STACK_TRACES: {
     name: 'ENABLE_ERROR_STACK_TRACES',
     enabled: process.env.NODE_ENV !== 'production',
@@ -28,6 +45,12 @@ const featureFlags: FeatureFlagMap = {
     description: 'Automatically retry failed network requests',
     controlGroup: 'networking'
   },
+  ENABLE_CIRCUIT_BREAKER: {
+    name: 'ENABLE_CIRCUIT_BREAKER',
+    enabled: true,
+    description: 'Fail fast on endpoints that keep failing instead of sending more requests',
+    controlGroup: 'networking'
+  },
   ENABLE_DETAILED_VALIDATION_ERRORS: {
     name: 'ENABLE_DETAILED_VALIDATION_ERRORS',
     enabled: true,
@@ -39,15 +62,244 @@ const featureFlags: FeatureFlagMap = {
     enabled: true,
     description: 'Report errors to monitoring service',
     controlGroup: 'monitoring'
+  },
+  BREADCRUMBS_CLICKS: {
+    name: 'BREADCRUMBS_CLICKS',
+    enabled: true,
+    description: 'Record clicks as breadcrumbs on reported errors',
+    controlGroup: 'monitoring'
+  },
+  BREADCRUMBS_NAVIGATION: {
+    name: 'BREADCRUMBS_NAVIGATION',
+    enabled: true,
+    description: 'Record route and history changes as breadcrumbs',
+    controlGroup: 'monitoring'
+  },
+  BREADCRUMBS_CONSOLE: {
+    name: 'BREADCRUMBS_CONSOLE',
+    enabled: true,
+    description: 'Record console warnings as breadcrumbs',
+    controlGroup: 'monitoring'
+  },
+  BREADCRUMBS_HTTP: {
+    name: 'BREADCRUMBS_HTTP',
+    enabled: true,
+    description: 'Record API requests made through useApi as breadcrumbs',
+    controlGroup: 'monitoring'
+  },
+  BREADCRUMBS_ERROR_STORE: {
+    name: 'BREADCRUMBS_ERROR_STORE',
+    enabled: true,
+    description: 'Record global error store transitions as breadcrumbs',
+    controlGroup: 'monitoring'
+  },
+  RETRY_MAX_ATTEMPTS: {
+    name: 'RETRY_MAX_ATTEMPTS',
+    enabled: true,
+    description: 'Attempts per request, including the first, when retry policies don\'t set their own',
+    value: 3,
+    defaultValue: 3,
+    controlGroup: 'networking'
+  },
+  TOAST_DURATIONS_MS: {
+    name: 'TOAST_DURATIONS_MS',
+    enabled: true,
+    description: 'How long error toasts stay visible for each severity',
+    value: {
+      [ErrorSeverity.CRITICAL]: 8000,
+      [ErrorSeverity.HIGH]: 5000,
+      [ErrorSeverity.MEDIUM]: 4000,
+      [ErrorSeverity.LOW]: 3000
+    },
+    defaultValue: {
+      [ErrorSeverity.CRITICAL]: 8000,
+      [ErrorSeverity.HIGH]: 5000,
+      [ErrorSeverity.MEDIUM]: 4000,
+      [ErrorSeverity.LOW]: 3000
+    }
   }
 };
 
+// Flags registered at runtime with registerFeatureFlag
+const registeredFlags: FeatureFlagMap = {};
+
+interface SourceEntry {
+  source: FlagSource;
+  definitions: FeatureFlagDefinitions;
+  // Incremented on every update, so a slow load can't overwrite a newer push
+  version: number;
+  unsubscribe?: () => void;
+}
+
+// Added sources, lowest precedence first
+let sourceEntries: SourceEntry[] = [];
+
+// Changes made at runtime with updateFeatureFlag; these win over every source
+const runtimeChanges: FeatureFlagDefinitions = {};
+
+/**
+ * Check that a definition has a usable shape
+ * Remote sources serve JSON from elsewhere, so nothing about it is trusted
+ */
+const isValidDefinition = (definition: unknown): definition is FeatureFlagDefinitions[string] => {
+  if (typeof definition === 'boolean') return true;
+  if (typeof definition !== 'object' || definition === null || Array.isArray(definition)) return false;
+
+  const { enabled, rollout, rules, variants } = definition as Record<string, unknown>;
+  return (enabled === undefined || typeof enabled === 'boolean') &&
+    (rollout === undefined || typeof rollout === 'number') &&
+    (rules === undefined || Array.isArray(rules)) &&
+    (variants === undefined || Array.isArray(variants));
+};
+
+/**
+ * Apply a layer of definitions over the resolved flags
+ * Only known flags (the schema's and registered ones) are changed, which also
+ * keeps keys such as __proto__ out of the flag map
+ */
+const applyDefinitions = (
+  flags: FeatureFlagMap,
+  definitions: FeatureFlagDefinitions,
+  sourceId: string
+): void => {
+  Object.entries(definitions).forEach(([name, definition]) => {
+    if (!Object.prototype.hasOwnProperty.call(flags, name) || !isValidDefinition(definition)) return;
+
+    const base: FeatureFlag = flags[name];
+
+    // A plain boolean forces the flag, dropping its targeting
+    const changes = typeof definition === 'boolean'
+      ? { enabled: definition, rules: undefined, rollout: undefined }
+      : definition;
+
+    flags[name] = { ...base, ...changes, name, source: sourceId };
+  });
+};
+
+const resolveFlags = (): FeatureFlagMap => {
+  const flags: FeatureFlagMap = Object.fromEntries(
+    Object.entries({ ...registeredFlags, ...defaultFlags }).map(([name, flag]) => [name, { ...flag, source: 'default' }])
+  );
+
+  sourceEntries.forEach(entry => applyDefinitions(flags, entry.definitions, entry.source.id));
+  applyDefinitions(flags, runtimeChanges, 'runtime');
+
+  return flags;
+};
+
+let featureFlags: FeatureFlagMap = resolveFlags();
+
+/**
+ * Re-resolve the flags and publish them to the store, re-rendering subscribed components
+ */
+const publishFlags = (): void => {
+  featureFlags = resolveFlags();
+  useFeatureFlagStore.getState().setFlags(featureFlags);
+};
+
+useFeatureFlagStore.getState().setFlags(featureFlags);
+
+// Components evaluate flags for the signed-in user and re-render when it changes
+useFeatureFlagStore.getState().setUser(getCurrentScope().getData().user ?? null);
+onUserChange(user => useFeatureFlagStore.getState().setUser(user));
+
+const isValidDefinitions = (definitions: unknown): definitions is FeatureFlagDefinitions => {
+  return typeof definitions === 'object' && definitions !== null && !Array.isArray(definitions);
+};
+
+const setSourceDefinitions = (entry: SourceEntry, definitions: FeatureFlagDefinitions): void => {
+  // Ignore late updates from a source that has been removed
+  if (!sourceEntries.includes(entry)) return;
+
+  entry.definitions = isValidDefinitions(definitions) ? definitions : {};
+  entry.version++;
+  publishFlags();
+};
+
+const loadSource = async (entry: SourceEntry): Promise<void> => {
+  const version = entry.version;
+
+  try {
+    const definitions = await entry.source.load();
+    if (entry.version === version) setSourceDefinitions(entry, definitions);
+  } catch (error) {
+    // Keep the last known definitions; flags fall back to lower layers until the source loads
+    if (process.env.NODE_ENV !== 'production') {
+      console.warn(`[feature flags] Failed to load source "${entry.source.id}"`, error);
+    }
+  }
+};
+
+/**
+ * Add a flag source above the ones added before it, returning a function that removes it
+ * The source is loaded immediately and its pushed updates applied as they arrive
+ */
+export const addFlagSource = (source: FlagSource): (() => void) => {
+  removeFlagSource(source.id);
+
+  const entry: SourceEntry = { source, definitions: {}, version: 0 };
+  sourceEntries = [...sourceEntries, entry];
+  entry.unsubscribe = source.subscribe?.(definitions => setSourceDefinitions(entry, definitions));
+  void loadSource(entry);
+
+  return () => removeFlagSource(source.id);
+};
+
+/**
+ * Remove a flag source by id and stop its updates
+ */
+export const removeFlagSource = (id: string): void => {
+  const removed = sourceEntries.filter(entry => entry.source.id === id);
+  if (removed.length === 0) return;
+
+  removed.forEach(entry => entry.unsubscribe?.());
+  sourceEntries = sourceEntries.filter(entry => entry.source.id !== id);
+  publishFlags();
+};
+
+/**
+ * Reload every source now
+ */
+export const refreshFeatureFlags = async (): Promise<void> => {
+  await Promise.all(sourceEntries.map(loadSource));
+};
+
+/**
+ * Check whether a served value has the same shape as the flag's default,
+ * so a misconfigured source can't hand a string to code expecting a number
+ */
+const matchesDefaultType = (value: FeatureFlagValue, fallback: FeatureFlagValue): boolean => {
+  if (fallback === null || value === null) return true;
+  return typeof value === typeof fallback && Array.isArray(value) === Array.isArray(fallback);
+};
+
 /**
  * Check if a feature flag is enabled
+ * Evaluated for the current scope's user unless another user is given
  */
-export const isFeatureEnabled = (flagName: string): boolean => {
+export const isFeatureEnabled = (
+  flagName: FeatureFlagName,
+  user: UserContext | null | undefined = getCurrentScope().getData().user
+): boolean => {
   const flag = featureFlags[flagName];
-  return flag?.enabled === true;
+  return flag ? evaluateFlag(flag, user) : false;
+};
+
+/**
+ * Get the value a feature flag serves, typed by the flag schema
+ * Switches serve true or false; variant flags their value, or their default while off
+ */
+export const getFlagValue = <N extends FeatureFlagName>(
+  flagName: N,
+  user: UserContext | null | undefined = getCurrentScope().getData().user,
+  // Resolved flags to read from, e.g. a store snapshot
+  flags: FeatureFlagMap = featureFlags
+): FeatureFlagSchema[N] => {
+  const fallback: FeatureFlagValue = defaultFlags[flagName].defaultValue ?? false;
+  const flag = flags[flagName];
+  const value = flag ? evaluateFlagValue(flag, user) : fallback;
+
+  return (matchesDefaultType(value, fallback) ? value : fallback) as FeatureFlagSchema[N];
 };
 
 /**
@@ -65,31 +317,74 @@ export const getAllFeatureFlags = (): FeatureFlagMap => {
 };
 
 /**
- * Update a feature flag (for demo purposes)
+ * Force a feature flag on or off for this page load (for demo purposes)
  */
-export const updateFeatureFlag = (flagName: string, enabled: boolean): void => {
+export const updateFeatureFlag = (flagName: FeatureFlagName, enabled: boolean): void => {
   if (featureFlags[flagName]) {
-    featureFlags[flagName].enabled = enabled;
+    runtimeChanges[flagName] = enabled;
+    publishFlags();
   }
 };
 
 /**
  * Register a new feature flag (for demo purposes)
+ * Registered flags are outside the schema; read them with getFeatureFlag
  */
 export const registerFeatureFlag = (flag: FeatureFlag): void => {
-  featureFlags[flag.name] = flag;
+  registeredFlags[flag.name] = flag;
+  publishFlags();
+};
+
+/**
+ * Run code guarded by a flag, tagging anything it throws or rejects with
+ * the flag and its value so the error can be attributed to the feature
+ */
+const runFlagged = <T>(flagName: FeatureFlagName, value: FeatureFlagValue, fn: () => T): T => {
+  const flags = { [flagName]: value };
+
+  try {
+    const result = fn();
+    if (result instanceof Promise) {
+      return result.catch((error: unknown) => {
+        throw tagErrorWithFlags(error, flags);
+      }) as T;
+    }
+    return result;
+  } catch (error) {
+    throw tagErrorWithFlags(error, flags);
+  }
 };
 
 /**
  * Higher-order function to conditionally execute code based on feature flag
+ * The enabled branch receives the flag's value; its errors are tagged with the flag
  */
-export const withFeatureFlag = <T>(
-  flagName: string, 
-  enabledFn: () => T, 
+export const withFeatureFlag = <N extends FeatureFlagName, T>(
+  flagName: N, 
+  enabledFn: (value: FeatureFlagSchema[N]) => T, 
   disabledFn?: () => T
 ): T => {
   if (isFeatureEnabled(flagName)) {
-    return enabledFn();
+    const value = getFlagValue(flagName);
+    return runFlagged(flagName, value, () => enabledFn(value));
   }
   return disabledFn ? disabledFn() : (undefined as unknown as T);
-};
\ No newline at end of file
+};
+
+/**
+ * Execute the handler for the variant a string or number flag serves
+ * Falls back to fallbackFn while the flag is off or serves a variant without a handler
+ */
+export const withFlagVariant = <N extends FeatureFlagName, T>(
+  flagName: N,
+  handlers: Partial<Record<string, (value: FeatureFlagSchema[N]) => T>>,
+  fallbackFn?: () => T
+): T => {
+  const value = getFlagValue(flagName);
+  const handler = isFeatureEnabled(flagName) ? handlers[String(value)] : undefined;
+
+  if (handler) {
+    return runFlagged(flagName, value, () => handler(value));
+  }
+  return fallbackFn ? fallbackFn() : (undefined as unknown as T);
+};
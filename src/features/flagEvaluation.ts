@@ -0,0 +1,129 @@
+import { FeatureFlag, FeatureFlagRule, FeatureFlagValue, UserContext } from '../types';
+import { fnv1a } from '../utils/hash';
+import { createRequestId } from '../utils/correlation';
+
+/**
+ * Feature flag evaluation
+ * Decides whether a flag is on for a user, and which value it serves: the first
+ * matching targeting rule wins, then the flag's percentage rollout, then its plain
+ * enabled state. Rollouts hash the user ID so a user keeps the same answer across
+ * sessions and devices
+ */
+
+// localStorage key holding the rollout ID of signed-out visitors
+const ANONYMOUS_ID_KEY = 'feature-flag-anonymous-id';
+
+let anonymousId: string | null = null;
+
+/**
+ * Stable ID used for rollouts when no user is signed in
+ */
+const getAnonymousId = (): string => {
+  if (anonymousId) return anonymousId;
+
+  try {
+    anonymousId = window.localStorage.getItem(ANONYMOUS_ID_KEY);
+    if (!anonymousId) {
+      anonymousId = createRequestId();
+      window.localStorage.setItem(ANONYMOUS_ID_KEY, anonymousId);
+    }
+  } catch {
+    // Storage unavailable; stable for this page load only
+    anonymousId ??= createRequestId();
+  }
+
+  return anonymousId;
+};
+
+/**
+ * Bucket (0-100) a user falls in for a flag
+ * Flags in the same control group hash the same key, so they share buckets
+ */
+export const getRolloutBucket = (flag: FeatureFlag, user?: UserContext | null): number => {
+  const id = user?.id ?? getAnonymousId();
+  return (fnv1a(`${flag.controlGroup ?? flag.name}:${id}`) % 10000) / 100;
+};
+
+const toList = (value: unknown): unknown[] => (Array.isArray(value) ? value : [value]);
+
+const matchesAny = (actual: unknown, expected: unknown): boolean => {
+  if (actual === undefined || actual === null) return false;
+  const expectedValues = toList(expected);
+  return toList(actual).some(value => expectedValues.includes(value));
+};
+
+/**
+ * Check whether a rule's conditions all match a user
+ */
+const matchesRule = (rule: FeatureFlagRule, user?: UserContext | null): boolean => {
+  if (rule.userIds && !matchesAny(user?.id, rule.userIds)) return false;
+  if (rule.roles && !matchesAny(user?.roles ?? user?.role, rule.roles)) return false;
+
+  return Object.entries(rule.attributes ?? {}).every(([attribute, expected]) =>
+    matchesAny(user?.[attribute], expected)
+  );
+};
+
+/**
+ * Pick a weighted variant for a user
+ * Hashed separately from the rollout bucket so variants split evenly among enabled users
+ */
+const pickVariant = (flag: FeatureFlag, user?: UserContext | null): FeatureFlagValue | undefined => {
+  const variants = flag.variants?.filter(variant => variant.weight > 0) ?? [];
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  if (total === 0) return undefined;
+
+  const id = user?.id ?? getAnonymousId();
+  let point = ((fnv1a(`${flag.controlGroup ?? flag.name}:variant:${id}`) % 10000) / 10000) * total;
+
+  const picked = variants.find(variant => (point -= variant.weight) < 0) ?? variants[variants.length - 1];
+  return picked.value;
+};
+
+/**
+ * Evaluate whether a flag is on for a user, and the rule that decided it
+ */
+const evaluate = (
+  flag: FeatureFlag,
+  user?: UserContext | null
+): { enabled: boolean; rule?: FeatureFlagRule } => {
+  const rule = flag.rules?.find(candidate => matchesRule(candidate, user));
+
+  if (rule) {
+    return {
+      enabled: rule.enabled && (rule.rollout === undefined || getRolloutBucket(flag, user) < rule.rollout),
+      rule
+    };
+  }
+
+  if (flag.rollout !== undefined) {
+    return { enabled: flag.enabled && getRolloutBucket(flag, user) < flag.rollout };
+  }
+
+  return { enabled: flag.enabled };
+};
+
+/**
+ * Evaluate a flag for a user
+ */
+export const evaluateFlag = (flag: FeatureFlag, user?: UserContext | null): boolean => {
+  return evaluate(flag, user).enabled;
+};
+
+/**
+ * Evaluate the value a flag serves to a user
+ * Off: the default value (false for switches). On: the matching rule's value,
+ * then a weighted variant, then the flag's value (true for switches)
+ */
+export const evaluateFlagValue = (flag: FeatureFlag, user?: UserContext | null): FeatureFlagValue => {
+  const { enabled, rule } = evaluate(flag, user);
+
+  if (!enabled) return flag.defaultValue ?? false;
+
+  if (rule?.value !== undefined) return rule.value;
+  if (flag.variants?.length) {
+    const variant = pickVariant(flag, user);
+    if (variant !== undefined) return variant;
+  }
+  return flag.value === undefined ? true : flag.value;
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { FeatureFlagValue } from '../types';
+import { formatOverrideValue, parseOverrideValue, parseOverridesQuery } from './flagOverrides';
+
+describe('parseOverrideValue', () => {
+  it('reads switches, numbers, JSON and plain strings', () => {
+    expect(parseOverrideValue('on')).toBe(true);
+    expect(parseOverrideValue('false')).toBe(false);
+    expect(parseOverrideValue(' 5 ')).toBe(5);
+    expect(parseOverrideValue('{"high":8000}')).toEqual({ high: 8000 });
+    expect(parseOverrideValue('treatment')).toBe('treatment');
+  });
+});
+
+describe('parseOverridesQuery', () => {
+  it('reads comma-separated pairs and repeated parameters', () => {
+    expect(parseOverridesQuery('?ff=ENABLE_ERROR_REPORTING:off,RETRY_MAX_ATTEMPTS:5&ff=VARIANT:b'))
+      .toEqual({ ENABLE_ERROR_REPORTING: false, RETRY_MAX_ATTEMPTS: 5, VARIANT: 'b' });
+  });
+
+  it('keeps JSON values containing commas whole', () => {
+    expect(parseOverridesQuery(`?ff=${encodeURIComponent('TOAST_DURATIONS_MS:{"low":3000,"high":8000}')}`))
+      .toEqual({ TOAST_DURATIONS_MS: { low: 3000, high: 8000 } });
+  });
+
+  it('skips pairs without a flag name', () => {
+    expect(parseOverridesQuery('?ff=:on,NO_VALUE,ENABLED:on&other=1')).toEqual({ ENABLED: true });
+  });
+});
+
+describe('formatOverrideValue', () => {
+  it.each<FeatureFlagValue>([
+    true, false, 5, 'treatment', 'off', '5', 'a,b', null, [1, 2], { low: 3000, high: 8000 }
+  ])('round-trips %j through a share link', (value) => {
+    const search = new URLSearchParams({ ff: `FLAG:${formatOverrideValue(value)}` }).toString();
+
+    expect(parseOverridesQuery(search)).toEqual({ FLAG: value });
+  });
+});
@@ -0,0 +1,147 @@
+import { FeatureFlagDefinitions, FeatureFlagValue } from '../types';
+import { DEFAULT_OVERRIDES_KEY, OVERRIDES_CHANGED_EVENT } from './flagSources';
+
+/**
+ * Local flag overrides
+ * Per-developer overrides stored in localStorage and applied by the localStorage
+ * flag source. Overrides can be shared through the URL, e.g.
+ * `?ff=ENABLE_ERROR_REPORTING:off,RETRY_MAX_ATTEMPTS:5`
+ */
+
+// Query parameter carrying shared overrides
+export const OVERRIDES_QUERY_PARAM = 'ff';
+
+/**
+ * Get the overridden values, keyed by flag name
+ */
+export const getFlagOverrides = (): Record<string, FeatureFlagValue> => {
+  try {
+    const stored: FeatureFlagDefinitions = JSON.parse(window.localStorage.getItem(DEFAULT_OVERRIDES_KEY) ?? '{}');
+
+    // Overrides written by hand may use full definitions; report the value they serve
+    return Object.fromEntries(
+      Object.entries(stored).map(([name, definition]) => [
+        name,
+        typeof definition === 'boolean' ? definition : definition.value ?? definition.enabled ?? true
+      ])
+    );
+  } catch {
+    return {};
+  }
+};
+
+const writeOverrides = (overrides: Record<string, FeatureFlagValue>): void => {
+  // Switches are stored as booleans, which force them; other values switch the flag on for
+  // everyone (JSON drops undefined, so targeting is cleared with empty lists and a full rollout)
+  const definitions: FeatureFlagDefinitions = Object.fromEntries(
+    Object.entries(overrides).map(([name, value]) => [
+      name,
+      typeof value === 'boolean'
+        ? value
+        : { enabled: true, value, variants: [], rules: [], rollout: 100 }
+    ])
+  );
+
+  try {
+    window.localStorage.setItem(DEFAULT_OVERRIDES_KEY, JSON.stringify(definitions));
+  } catch {
+    return;
+  }
+
+  window.dispatchEvent(new CustomEvent(OVERRIDES_CHANGED_EVENT));
+};
+
+/**
+ * Override the value a flag serves, or pass undefined to remove its override
+ */
+export const setFlagOverride = (flagName: string, value: FeatureFlagValue | undefined): void => {
+  const overrides = getFlagOverrides();
+
+  if (value === undefined) {
+    delete overrides[flagName];
+  } else {
+    overrides[flagName] = value;
+  }
+
+  writeOverrides(overrides);
+};
+
+/**
+ * Remove every override
+ */
+export const clearFlagOverrides = (): void => {
+  writeOverrides({});
+};
+
+/**
+ * Parse a shared value: on/off and true/false, numbers, JSON, or a plain string
+ */
+export const parseOverrideValue = (raw: string): FeatureFlagValue => {
+  const value = raw.trim();
+
+  if (value === 'on' || value === 'true') return true;
+  if (value === 'off' || value === 'false') return false;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Format a value for sharing so that parseOverrideValue reads it back unchanged
+ */
+export const formatOverrideValue = (value: FeatureFlagValue): string => {
+  if (value === true) return 'on';
+  if (value === false) return 'off';
+  // Strings that would read back as something else (e.g. "off" or "5") or be split are quoted
+  return typeof value === 'string' && !value.includes(',') && parseOverrideValue(value) === value
+    ? value
+    : JSON.stringify(value);
+};
+
+/**
+ * Parse overrides from a query string
+ * Accepts comma-separated `name:value` pairs and repeated `ff` parameters
+ */
+export const parseOverridesQuery = (search: string): Record<string, FeatureFlagValue> => {
+  const overrides: Record<string, FeatureFlagValue> = {};
+
+  new URLSearchParams(search).getAll(OVERRIDES_QUERY_PARAM).forEach(param => {
+    // A JSON value may contain commas, so only split params that hold no JSON
+    const pairs = /[{["]/.test(param) ? [param] : param.split(',');
+
+    pairs.forEach(pair => {
+      const separator = pair.indexOf(':');
+      if (separator <= 0) return;
+      overrides[pair.slice(0, separator).trim()] = parseOverrideValue(pair.slice(separator + 1));
+    });
+  });
+
+  return overrides;
+};
+
+/**
+ * Persist overrides shared through the current URL
+ */
+export const applyUrlFlagOverrides = (): void => {
+  const shared = parseOverridesQuery(window.location.search);
+  if (Object.keys(shared).length === 0) return;
+
+  writeOverrides({ ...getFlagOverrides(), ...shared });
+};
+
+/**
+ * Build a link to the current page that shares the current overrides
+ */
+export const createOverridesShareUrl = (): string => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(OVERRIDES_QUERY_PARAM);
+
+  Object.entries(getFlagOverrides()).forEach(([name, value]) => {
+    url.searchParams.append(OVERRIDES_QUERY_PARAM, `${name}:${formatOverrideValue(value)}`);
+  });
+
+  return url.toString();
+};
@@ -0,0 +1,140 @@
+import { FeatureFlagDefinitions } from '../types';
+
+/**
+ * Feature flag sources
+ * A source supplies flag definitions layered over the built-in defaults: a static
+ * object, a JSON document fetched from a URL, or overrides kept in localStorage.
+ * Sources may push updates (polling, server-sent events, storage events)
+ */
+
+/**
+ * A provider of flag definitions
+ */
+export interface FlagSource {
+  id: string;
+  // Fetch the source's current definitions
+  load: () => FeatureFlagDefinitions | Promise<FeatureFlagDefinitions>;
+  // Deliver later updates; returns a function that stops them
+  subscribe?: (update: (definitions: FeatureFlagDefinitions) => void) => () => void;
+}
+
+/**
+ * Remote source configuration
+ */
+export interface UrlSourceOptions {
+  // URL of a JSON document of flag definitions
+  url: string;
+  // Re-fetch the document this often; leave unset to load once
+  pollIntervalMs?: number;
+  // Server-sent events URL whose messages carry updated definitions as JSON
+  streamUrl?: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  id?: string;
+}
+
+/**
+ * localStorage override source configuration
+ */
+export interface LocalStorageSourceOptions {
+  key?: string;
+  id?: string;
+}
+
+export const DEFAULT_OVERRIDES_KEY = 'feature-flag-overrides';
+
+// Dispatched on window when overrides are changed in this tab (storage events only reach other tabs)
+export const OVERRIDES_CHANGED_EVENT = 'featureFlagOverridesChanged';
+
+/**
+ * A fixed set of definitions, e.g. bundled per environment
+ */
+export const createStaticSource = (
+  definitions: FeatureFlagDefinitions,
+  id = 'static'
+): FlagSource => ({
+  id,
+  load: () => definitions
+});
+
+/**
+ * Definitions fetched from a JSON URL, refreshed by polling and/or server-sent events
+ */
+export const createUrlSource = (options: UrlSourceOptions): FlagSource => {
+  const { url, pollIntervalMs, streamUrl, headers, timeoutMs = 5000, id = 'remote' } = options;
+
+  const load = async (): Promise<FeatureFlagDefinitions> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(url, { headers, cache: 'no-store', signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`Loading feature flags from ${url} failed with status ${response.status}`);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const subscribe = (update: (definitions: FeatureFlagDefinitions) => void): (() => void) => {
+    const timer = pollIntervalMs
+      ? setInterval(() => {
+          // A failed poll keeps the last known definitions
+          load().then(update).catch(() => undefined);
+        }, pollIntervalMs)
+      : undefined;
+
+    const stream = streamUrl && typeof EventSource !== 'undefined' ? new EventSource(streamUrl) : undefined;
+    stream?.addEventListener('message', (event) => {
+      try {
+        update(JSON.parse(event.data));
+      } catch {
+        // Ignore malformed messages
+      }
+    });
+
+    return () => {
+      if (timer) clearInterval(timer);
+      stream?.close();
+    };
+  };
+
+  return { id, load, subscribe };
+};
+
+/**
+ * Overrides kept in localStorage, e.g. `{"ENABLE_ERROR_REPORTING": false}`
+ * Changes made in other tabs are picked up through storage events, and changes
+ * made in this tab through OVERRIDES_CHANGED_EVENT
+ */
+export const createLocalStorageSource = (options: LocalStorageSourceOptions = {}): FlagSource => {
+  const { key = DEFAULT_OVERRIDES_KEY, id = 'override' } = options;
+
+  const load = (): FeatureFlagDefinitions => {
+    try {
+      const stored = window.localStorage.getItem(key);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  };
+
+  const subscribe = (update: (definitions: FeatureFlagDefinitions) => void): (() => void) => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === key || event.key === null) update(load());
+    };
+
+    const handleChange = () => update(load());
+
+    window.addEventListener('storage', handleStorage);
+    window.addEventListener(OVERRIDES_CHANGED_EVENT, handleChange);
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+      window.removeEventListener(OVERRIDES_CHANGED_EVENT, handleChange);
+    };
+  };
+
+  return { id, load, subscribe };
+};
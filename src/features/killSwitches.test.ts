@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { logErrorToMonitoring } from '../services/errorLogging';
+import { updateFeatureFlag } from './featureFlags';
+import { configureKillSwitches, getKilledFlags, recordFlagErrors, resetKillSwitch } from './killSwitches';
+
+// Kills are reported to monitoring; keep the reports out of these tests
+vi.mock('../services/errorLogging', () => ({ logErrorToMonitoring: vi.fn() }));
+
+const FLAG = 'ENABLE_CIRCUIT_BREAKER';
+
+describe('recordFlagErrors', () => {
+  afterEach(() => {
+    configureKillSwitches({ errorThreshold: 10, windowMs: 60000 });
+    resetKillSwitch();
+    updateFeatureFlag('ENABLE_ERROR_REPORTING', true);
+    vi.mocked(logErrorToMonitoring).mockClear();
+  });
+
+  it('kills a flag once its errors reach the threshold within the window', () => {
+    configureKillSwitches({ errorThreshold: 3, windowMs: 1000 });
+
+    recordFlagErrors({ [FLAG]: true }, 0);
+    recordFlagErrors({ [FLAG]: true }, 500);
+    expect(getKilledFlags()[FLAG]).toBeUndefined();
+
+    recordFlagErrors({ [FLAG]: true }, 1000);
+    expect(getKilledFlags()[FLAG]).toMatchObject({ errorCount: 3, windowMs: 1000 });
+  });
+
+  it('only reports a kill while error reporting is on', () => {
+    configureKillSwitches({ errorThreshold: 1 });
+
+    recordFlagErrors({ [FLAG]: true }, 0);
+    expect(logErrorToMonitoring).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'FLAG_KILL_SWITCH' }),
+      { type: 'killSwitch' }
+    );
+
+    resetKillSwitch();
+    vi.mocked(logErrorToMonitoring).mockClear();
+    updateFeatureFlag('ENABLE_ERROR_REPORTING', false);
+
+    recordFlagErrors({ [FLAG]: true }, 0);
+    expect(getKilledFlags()[FLAG]).toBeDefined();
+    expect(logErrorToMonitoring).not.toHaveBeenCalled();
+  });
+
+  it('forgets errors older than the window', () => {
+    configureKillSwitches({ errorThreshold: 3, windowMs: 1000 });
+
+    recordFlagErrors({ [FLAG]: true }, 0);
+    recordFlagErrors({ [FLAG]: true }, 500);
+    recordFlagErrors({ [FLAG]: true }, 1501);
+
+    expect(getKilledFlags()[FLAG]).toBeUndefined();
+  });
+
+  it('ignores errors while the flag serves its safe value and unknown flags', () => {
+    configureKillSwitches({ errorThreshold: 1 });
+
+    recordFlagErrors({ [FLAG]: false, UNKNOWN_FLAG: true }, 0);
+
+    expect(getKilledFlags()).toEqual({});
+  });
+
+  it('counts again from zero after a kill is reset', () => {
+    configureKillSwitches({ errorThreshold: 2, windowMs: 1000 });
+
+    recordFlagErrors({ [FLAG]: true }, 0);
+    recordFlagErrors({ [FLAG]: true }, 100);
+    resetKillSwitch(FLAG);
+    expect(getKilledFlags()[FLAG]).toBeUndefined();
+
+    recordFlagErrors({ [FLAG]: true }, 200);
+    expect(getKilledFlags()[FLAG]).toBeUndefined();
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  ErrorCategory, ErrorResponse, ErrorSeverity, FeatureFlagDefinitions, FeatureFlagValue,
+  KillSwitchOptions, ScopeData
+} from '../types';
+import ErrorManager from '../errors/ErrorManager';
+import { logErrorToMonitoring } from '../services/errorLogging';
+import { recordBreadcrumb } from '../services/breadcrumbs';
+import { getCurrentScope } from '../services/errorScope';
+import { getFeatureFlag, isFeatureEnabled } from './featureFlags';
+import { FlagSource } from './flagSources';
+
+/**
+ * Error-triggered kill switches
+ * Errors tagged with the flags guarding the failing code are counted per flag.
+ * When a flag's errors pass the threshold within the window, the flag is switched
+ * to its safe value (its default value, off for switches) for the rest of the
+ * session and, while error reporting is on, the kill is reported. Kills are
+ * applied through killSwitchSource
+ */
+
+/**
+ * A flag switched off by its kill switch
+ */
+export interface KilledFlag {
+  killedAt: string;
+  errorCount: number;
+  windowMs: number;
+}
+
+type DefinitionsListener = (definitions: FeatureFlagDefinitions) => void;
+
+// sessionStorage key keeping kills for the rest of the session
+const SESSION_STORAGE_KEY = 'feature-flag-kill-switches';
+
+const DEFAULT_OPTIONS: KillSwitchOptions = {
+  errorThreshold: 10,
+  windowMs: 60000
+};
+
+let options: KillSwitchOptions = { ...DEFAULT_OPTIONS };
+const errorTimes = new Map<string, number[]>();
+const listeners = new Set<DefinitionsListener>();
+// Errors already counted, so one handled at several catch sites (client, then hook) counts once
+const countedErrors = new WeakSet<object>();
+
+const readKilledFlags = (): Record<string, KilledFlag> => {
+  try {
+    const stored = window.sessionStorage.getItem(SESSION_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+let killedFlags: Record<string, KilledFlag> = readKilledFlags();
+
+const persistKilledFlags = (): void => {
+  try {
+    window.sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(killedFlags));
+  } catch {
+    // Storage unavailable; kills last for this page load only
+  }
+};
+
+/**
+ * Killed flags as flag definitions: off, with targeting dropped, so they serve their default value
+ */
+const toDefinitions = (): FeatureFlagDefinitions => {
+  return Object.fromEntries(
+    Object.keys(killedFlags).map(name => [name, { enabled: false, rules: undefined, rollout: undefined }])
+  );
+};
+
+const publish = (): void => {
+  const definitions = toDefinitions();
+  listeners.forEach(listener => listener(definitions));
+};
+
+/**
+ * Flag source applying kills; add it after the other sources so kills win over them
+ */
+export const killSwitchSource: FlagSource = {
+  id: 'kill-switch',
+  load: toDefinitions,
+  subscribe: (update) => {
+    listeners.add(update);
+    return () => {
+      listeners.delete(update);
+    };
+  }
+};
+
+/**
+ * Update the default threshold and window; flags can override them with `killSwitch`
+ */
+export const configureKillSwitches = (config: Partial<KillSwitchOptions>): void => {
+  options = { ...options, ...config };
+};
+
+/**
+ * Get the flags switched off during this session
+ */
+export const getKilledFlags = (): Record<string, KilledFlag> => {
+  return { ...killedFlags };
+};
+
+/**
+ * Restore a killed flag, or every killed flag when no name is given
+ */
+export const resetKillSwitch = (flagName?: string): void => {
+  killedFlags = flagName
+    ? Object.fromEntries(Object.entries(killedFlags).filter(([name]) => name !== flagName))
+    : {};
+
+  if (flagName) {
+    errorTimes.delete(flagName);
+  } else {
+    errorTimes.clear();
+  }
+
+  persistKilledFlags();
+  publish();
+};
+
+const isSameValue = (a: FeatureFlagValue, b: FeatureFlagValue): boolean => {
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const killFlag = (
+  flagName: string,
+  errorCount: number,
+  windowMs: number,
+  safeValue: FeatureFlagValue
+): void => {
+  killedFlags = {
+    ...killedFlags,
+    [flagName]: { killedAt: new Date().toISOString(), errorCount, windowMs }
+  };
+  errorTimes.delete(flagName);
+  persistKilledFlags();
+  publish();
+
+  const message = `Feature flag ${flagName} was switched off after ${errorCount} errors in ${windowMs / 1000}s`;
+  recordBreadcrumb(message, 'feature-flag', 'warning');
+  if (!isFeatureEnabled('ENABLE_ERROR_REPORTING')) return;
+
+  logErrorToMonitoring({
+    message,
+    severity: ErrorSeverity.HIGH,
+    category: ErrorCategory.CLIENT,
+    code: 'FLAG_KILL_SWITCH',
+    timestamp: new Date().toISOString(),
+    data: { flag: flagName, errorCount, windowMs, safeValue }
+  }, { type: 'killSwitch' });
+};
+
+/**
+ * Count an error against the flags guarding the code that failed
+ * Flags already serving their safe value, or exempt with `killSwitch: false`, are ignored
+ */
+export const recordFlagErrors = (
+  flags: Record<string, FeatureFlagValue>,
+  now: number = Date.now()
+): void => {
+  Object.entries(flags).forEach(([flagName, value]) => {
+    const flag = getFeatureFlag(flagName);
+    if (!flag || flag.killSwitch === false || killedFlags[flagName]) return;
+
+    const safeValue = flag.defaultValue ?? false;
+    if (isSameValue(value, safeValue)) return;
+
+    const { errorThreshold, windowMs } = { ...options, ...flag.killSwitch };
+    const times = [...(errorTimes.get(flagName) ?? []), now].filter(time => now - time <= windowMs);
+    errorTimes.set(flagName, times);
+
+    if (times.length >= errorThreshold) {
+      killFlag(flagName, times.length, windowMs, safeValue);
+    }
+  });
+};
+
+/**
+ * Count a caught error against the flags tagged on it and the flags of the scope
+ * it was caught in (e.g. a <Feature>)
+ * Every catch site (API client, useApi, error boundaries, withErrorHandling, global
+ * handlers) calls this before deciding whether to report, so errors that are never
+ * reported (reporting off, sampled out, deduplicated) still trip kill switches.
+ * An error handled at several catch sites is counted once
+ */
+export const recordCaughtError = (
+  error: unknown,
+  processed: ErrorResponse,
+  scope?: Partial<ScopeData>,
+  now: number = Date.now()
+): void => {
+  if (ErrorManager.isCancelled(processed)) return;
+
+  if (typeof error === 'object' && error !== null) {
+    if (countedErrors.has(error)) return;
+    countedErrors.add(error);
+  }
+
+  const flags = { ...getCurrentScope().getData().flags, ...scope?.flags, ...processed.flags };
+  if (Object.keys(flags).length > 0) recordFlagErrors(flags, now);
+};
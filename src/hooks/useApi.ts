@@ -1,20 +1,111 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import ErrorManager from '../errors/ErrorManager';
-import { ApiResponse } from '../types';
+import { BaseError, CancelledError, CircuitOpenError, OfflineError } from '../errors/classes';
+import { ApiResponse, RetryPolicy } from '../types';
 import useErrorStore from '../store/errorStore';
 import { logErrorToMonitoring } from '../services/errorLogging';
-import { isFeatureEnabled } from '../features/featureFlags';
-import axios, { AxiosError, AxiosRequestConfig } from 'axios';
+import ConnectivityMonitor from '../services/connectivity';
+import { withScope } from '../services/errorScope';
+import useErrorScope from './useErrorScope';
+import apiClient from '../services/apiClient';
+import useFeatureFlag from './useFeatureFlag';
+import { recordCaughtError } from '../features/killSwitches';
+import { getRequestKey, shareRequest } from '../utils/inflightRequests';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { toast } from 'react-hot-toast';
+
+// Requests are aborted with a TimeoutError after this long unless overridden
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Details passed to onSlowRequest
+ */
+export interface SlowRequestInfo {
+  url: string;
+  method: string;
+  elapsedMs: number;
+  timeoutMs: number;
+}
+
+// Requests held with waitForConnection fail with an OfflineError after this long
+export const DEFAULT_CONNECTION_TIMEOUT_MS = 120000;
+
+/**
+ * Options applied to every request made through the hook
+ */
+interface UseApiOptions {
+  // Client sending the requests; defaults to the shared client from createApiClient
+  client?: AxiosInstance;
+  // Merged over the client's retry policy
+  retryPolicy?: Partial<RetryPolicy>;
+  // Hold requests while offline and send them once the connection returns
+  waitForConnection?: boolean;
+  // Give up holding after this long, failing with an OfflineError (default 2 minutes)
+  connectionTimeoutMs?: number;
+  // Hard timeout per attempt; 0 disables it
+  timeoutMs?: number;
+  // Warn once a request has been running this long, before the hard timeout
+  slowRequestThresholdMs?: number;
+  // Called when a request passes the slow threshold; a warning toast is shown when omitted
+  onSlowRequest?: (info: SlowRequestInfo) => void;
+}
+
+/**
+ * Options applied to a single request, overriding the hook options
+ */
+interface ExecuteOptions {
+  // Partial policy merged over the hook policy, or false to disable retries
+  retry?: Partial<RetryPolicy> | false;
+  waitForConnection?: boolean;
+  connectionTimeoutMs?: number;
+  // Abort the previous request of this hook when a new one starts (default true)
+  cancelPrevious?: boolean;
+  // Join an identical GET that is already in flight (default true)
+  dedupe?: boolean;
+  timeoutMs?: number;
+  slowRequestThresholdMs?: number;
+}
 
 /**
  * Hook for making API requests with built-in error handling
  */
-function useApi<T>() {
+function useApi<T>(hookOptions: UseApiOptions = {}) {
   const [loading, setLoading] = useState<boolean>(false);
   const [data, setData] = useState<T | null>(null);
   const [error, setError] = useState<ApiResponse<T>['error']>(undefined);
+  const [attempt, setAttempt] = useState<number>(0);
+  const [retrying, setRetrying] = useState<boolean>(false);
+  const [waitingForConnection, setWaitingForConnection] = useState<boolean>(false);
   const { setError: setGlobalError } = useErrorStore();
 
+  // Keep the latest hook options without recreating execute on every render
+  const hookOptionsRef = useRef(hookOptions);
+  hookOptionsRef.current = hookOptions;
+
+  // Tags and extras from surrounding ErrorScope providers go with every report
+  const errorScope = useErrorScope();
+  const scopeRef = useRef(errorScope);
+  scopeRef.current = errorScope;
+  
+  // Read through a ref so requests in flight see flag changes made since they started
+  const reportingEnabled = useFeatureFlag('ENABLE_ERROR_REPORTING');
+  const reportingEnabledRef = useRef(reportingEnabled);
+  reportingEnabledRef.current = reportingEnabled;
+
+  // Only the latest request of a mounted hook may update state
+  const controllerRef = useRef<AbortController | null>(null);
+  const requestIdRef = useRef(0);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+
+    return () => {
+      mountedRef.current = false;
+      controllerRef.current?.abort();
+    };
+  }, []);
+
   /**
    * Execute an API request with comprehensive error handling
    */
@@ -22,92 +113,239 @@ function useApi<T>() {
     async (
       url: string,
       options?: AxiosRequestConfig,
-      showGlobalError = true
+      showGlobalError = true,
+      requestOptions: ExecuteOptions = {}
     ): Promise<ApiResponse<T>> => {
+      if (requestOptions.cancelPrevious ?? true) {
+        controllerRef.current?.abort();
+      }
+
+      const controller = new AbortController();
+      const requestId = ++requestIdRef.current;
+      const isCurrent = () => mountedRef.current && requestIdRef.current === requestId;
+      controllerRef.current = controller;
+
+      // Honor a signal passed by the caller as well, including one aborted before the call
+      if (options?.signal?.aborted) {
+        controller.abort();
+      } else {
+        options?.signal?.addEventListener?.('abort', () => controller.abort(), { once: true });
+      }
+
       setLoading(true);
       setError(undefined);
+      setAttempt(0);
+      setRetrying(false);
+
+      const method = options?.method || 'GET';
+      const client = hookOptionsRef.current.client ?? apiClient;
+      const timeoutMs = requestOptions.timeoutMs ?? options?.timeout ??
+        hookOptionsRef.current.timeoutMs ?? (client.defaults.timeout || DEFAULT_REQUEST_TIMEOUT_MS);
+      const requestConfig: AxiosRequestConfig = {
+        url,
+        ...options,
+        timeout: timeoutMs,
+        scope: scopeRef.current,
+        retry: requestOptions.retry === false
+          ? false
+          : { ...hookOptionsRef.current.retryPolicy, ...requestOptions.retry },
+      };
+      const requestKey = requestOptions.dedupe ?? true ? getRequestKey(url, requestConfig, client) : undefined;
+      const slowRequestThresholdMs =
+        requestOptions.slowRequestThresholdMs ?? hookOptionsRef.current.slowRequestThresholdMs;
+      const waitForConnection =
+        requestOptions.waitForConnection ?? hookOptionsRef.current.waitForConnection ?? false;
+      const connectionTimeoutMs = requestOptions.connectionTimeoutMs ??
+        hookOptionsRef.current.connectionTimeoutMs ?? DEFAULT_CONNECTION_TIMEOUT_MS;
+
+      /**
+       * Wait for the connection to come back, failing with OfflineError on timeout
+       * and with CancelledError when the request is cancelled or the component unmounts
+       */
+      const holdUntilOnline = async (): Promise<void> => {
+        if (ConnectivityMonitor.isOnline()) return;
+
+        if (isCurrent()) setWaitingForConnection(true);
+        try {
+          await ConnectivityMonitor.waitForOnline(connectionTimeoutMs, controller.signal);
+        } catch (err) {
+          if (controller.signal.aborted) throw new CancelledError();
+          throw new OfflineError(undefined, undefined, { url, method }, true, { cause: err });
+        } finally {
+          if (isCurrent()) setWaitingForConnection(false);
+        }
+      };
+
+      /**
+       * Start the slow request timer for an attempt, returning a function that stops it
+       */
+      const watchForSlowRequest = (startedAt: number): (() => void) => {
+        if (slowRequestThresholdMs === undefined) return () => undefined;
+
+        const timer = setTimeout(() => {
+          if (!isCurrent()) return;
+
+          const info = { url, method, elapsedMs: Date.now() - startedAt, timeoutMs };
+          const { onSlowRequest } = hookOptionsRef.current;
+
+          if (onSlowRequest) {
+            onSlowRequest(info);
+          } else {
+            toast('This is taking longer than usual…', { id: `slow-request:${method}:${url}` });
+          }
+        }, slowRequestThresholdMs);
+
+        return () => clearTimeout(timer);
+      };
+
+      const handleRetry = () => {
+        if (!isCurrent()) return;
+        setRetrying(true);
+        setAttempt((current) => current + 1);
+      };
+
+      /**
+       * Send the request through the client, whose interceptors handle retries,
+       * circuit breaking and translation into our error classes
+       */
+      const performRequest = (
+        signal: AbortSignal,
+        onRetry: NonNullable<AxiosRequestConfig['onRetry']> = handleRetry
+      ): Promise<AxiosResponse<T>> => {
+        return client.request<T>({ ...requestConfig, signal, onRetry });
+      };
+
+      const sendRequest = async (): Promise<AxiosResponse<T>> => {
+        if (waitForConnection) {
+          await holdUntilOnline();
+        }
+
+        // Don't start another attempt once the request has been cancelled
+        if (controller.signal.aborted) {
+          throw new CancelledError();
+        }
+
+        if (isCurrent()) {
+          setAttempt((current) => current + 1);
+        }
+
+        const startedAt = Date.now();
+        const stopWatching = watchForSlowRequest(startedAt);
+
+        try {
+          return requestKey
+            ? await shareRequest(requestKey, performRequest, controller.signal, handleRetry)
+            : await performRequest(controller.signal);
+        } catch (err) {
+          // Clients without our interceptors still reject with raw axios errors
+          const processed = axios.isAxiosError(err)
+            ? ErrorManager.createFromAxiosError(err, Date.now() - startedAt)
+            : err;
+
+          // The connection dropped mid-flight: hold the request until the monitor sees it
+          // come back (even if it hadn't noticed the drop yet), then send it again
+          if (waitForConnection && processed instanceof OfflineError) {
+            ConnectivityMonitor.reportOffline();
+            return sendRequest();
+          }
+
+          throw processed;
+        } finally {
+          stopWatching();
+        }
+      };
 
       try {
-        const response = await axios<T>({
-          url,
-          ...options,
-        });
+        const response = await sendRequest();
 
         const result: ApiResponse<T> = {
           data: response.data,
           status: response.status,
         };
 
-        setData(response.data);
+        // A newer call or an unmount superseded this request; drop the stale response
+        if (isCurrent()) {
+          setData(response.data);
+        }
         return result;
       } catch (err) {
-        let processedError;
+        const processedError = ErrorManager.handle(err);
+        recordCaughtError(err, processedError, scopeRef.current);
 
-        if (axios.isAxiosError(err)) {
-          processedError = handleAxiosError(err);
-        } else {
-          processedError = ErrorManager.handle(err);
+        // Cancelled or superseded requests are neither shown nor reported
+        if (ErrorManager.isCancelled(processedError) || !isCurrent()) {
+          return { error: processedError, status: 0 };
         }
 
         setError(processedError);
 
         // Set global error state if requested
-        if (showGlobalError) {
+        // An open circuit is announced once by CircuitBreakerBanner rather than per request
+        if (showGlobalError && !(err instanceof CircuitOpenError)) {
           setGlobalError(processedError);
         }
 
         // Log error to monitoring service based on feature flag
-        if (isFeatureEnabled('ENABLE_ERROR_REPORTING') && 
+        // Errors already reported by the client are skipped by shouldReport
+        if (reportingEnabledRef.current &&
             ErrorManager.shouldReport(processedError)) {
-          logErrorToMonitoring(processedError, {
-            url,
-            method: options?.method || 'GET',
+          withScope((scope) => {
+            scope.apply(scopeRef.current);
+            logErrorToMonitoring(processedError, {
+              url,
+              method: options?.method || 'GET',
+            });
           });
         }
 
         return {
           error: processedError,
-          status: (err as AxiosError)?.response?.status || 500,
+          status: err instanceof BaseError && typeof err.code === 'number' && err.code > 0
+            ? err.code
+            : 500,
         };
       } finally {
-        setLoading(false);
+        if (isCurrent()) {
+          setLoading(false);
+          setRetrying(false);
+          controllerRef.current = null;
+        }
       }
     },
     [setGlobalError]
   );
 
   /**
-   * Handle Axios specific errors
+   * Abort the request currently in flight, if any
    */
-  const handleAxiosError = (error: AxiosError): ReturnType<typeof ErrorManager.handle> => {
-    const status = error.response?.status || 0;
-    const data = error.response?.data;
-    const message = 
-      typeof data === 'string' ? data : 
-      typeof data === 'object' && data && 'message' in data ? String(data.message) : 
-      error.message;
-
-    return ErrorManager.handle(
-      ErrorManager.createFromHttpStatus(status, message, data)
-    );
-  };
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
 
   /**
    * Reset the hook state
    */
   const reset = useCallback(() => {
+    cancel();
     setData(null);
     setError(undefined);
     setLoading(false);
-  }, []);
+    setAttempt(0);
+    setRetrying(false);
+    setWaitingForConnection(false);
+  }, [cancel]);
 
   return {
     execute,
     loading,
     data,
     error,
+    attempt,
+    retrying,
+    waitingForConnection,
+    cancel,
     reset,
   };
 }
 
-export default useApi;
\ No newline at end of file
+export default useApi;
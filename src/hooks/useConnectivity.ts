@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from 'react';
+import ConnectivityMonitor, { ConnectivityStatus } from '../services/connectivity';
+
+const subscribe = (onChange: () => void) => ConnectivityMonitor.subscribe(onChange);
+const getSnapshot = () => ConnectivityMonitor.getStatus();
+
+/**
+ * Hook returning the current connectivity status, re-rendering when it changes
+ */
+function useConnectivity(): ConnectivityStatus {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+export default useConnectivity;
@@ -0,0 +1,16 @@
+import { createContext, useContext } from 'react';
+import { ScopeData } from '../types';
+
+/**
+ * Scope data added by the nearest ErrorScope providers
+ */
+export const ErrorScopeContext = createContext<Partial<ScopeData>>({});
+
+/**
+ * Hook returning the scope data of the surrounding ErrorScope providers
+ */
+function useErrorScope(): Partial<ScopeData> {
+  return useContext(ErrorScopeContext);
+}
+
+export default useErrorScope;
@@ -0,0 +1,44 @@
+import { createContext, useContext, useMemo } from 'react';
+import { FeatureFlagName, FeatureFlagSchema, UserContext } from '../types';
+import { evaluateFlag } from '../features/flagEvaluation';
+import { getFlagValue } from '../features/featureFlags';
+import useFeatureFlagStore from '../store/featureFlagStore';
+
+/**
+ * Settings from the nearest FeatureFlagProvider
+ */
+export interface FeatureFlagContextValue {
+  // User to evaluate flags for instead of the global scope's user
+  user?: UserContext | null;
+}
+
+export const FeatureFlagContext = createContext<FeatureFlagContextValue>({});
+
+/**
+ * Hook returning whether a feature flag is enabled
+ * Re-renders when the flag's definition or the user it is evaluated for changes
+ */
+function useFeatureFlag(name: FeatureFlagName): boolean {
+  const { user: contextUser } = useContext(FeatureFlagContext);
+
+  return useFeatureFlagStore((state) => {
+    const flag = state.flags[name];
+    return flag ? evaluateFlag(flag, contextUser === undefined ? state.user : contextUser) : false;
+  });
+}
+
+/**
+ * Hook returning the value a feature flag serves, typed by the flag schema
+ * Re-renders like useFeatureFlag; JSON values keep their identity until the flags change
+ */
+export function useFlagValue<N extends FeatureFlagName>(name: N): FeatureFlagSchema[N] {
+  const { user: contextUser } = useContext(FeatureFlagContext);
+  const flags = useFeatureFlagStore(state => state.flags);
+  const storeUser = useFeatureFlagStore(state => state.user);
+  const user = contextUser === undefined ? storeUser : contextUser;
+
+  // Recomputed only when the flags or the user change
+  return useMemo(() => getFlagValue(name, user, flags), [name, user, flags]);
+}
+
+export default useFeatureFlag;
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { ErrorResponse } from '../types';
+
+/**
+ * Seconds left until the server said the request may be retried
+ */
+const getRemainingSeconds = (error: ErrorResponse | null | undefined): number => {
+  if (!error?.retryAfter) return 0;
+
+  const retryAt = new Date(error.timestamp).getTime() + error.retryAfter * 1000;
+  return Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+};
+
+/**
+ * Hook that counts down an error's retryAfter, re-rendering every second
+ */
+function useRetryCountdown(error: ErrorResponse | null | undefined): number {
+  const [remaining, setRemaining] = useState<number>(() => getRemainingSeconds(error));
+
+  useEffect(() => {
+    setRemaining(getRemainingSeconds(error));
+
+    if (getRemainingSeconds(error) === 0) return;
+
+    const interval = setInterval(() => {
+      const next = getRemainingSeconds(error);
+      setRemaining(next);
+
+      if (next === 0) {
+        clearInterval(interval);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [error]);
+
+  return remaining;
+}
+
+export default useRetryCountdown;
@@ -4,12 +4,53 @@ import App from './App';
 import './index.css';
 import ErrorManager from './errors/ErrorManager';
 import { logErrorToMonitoring } from './services/errorLogging';
-import { setUserContext } from './services/errorLogging';
+import { setRelease } from './services/errorScope';
+import ErrorTransport from './services/errorTransport';
+import { installBreadcrumbCollectors } from './services/breadcrumbs';
+import ConnectivityMonitor from './services/connectivity';
+import { createSourceMapSymbolicator, setSymbolicator } from './services/symbolication';
 import useErrorStore from './store/errorStore';
+import { addFlagSource } from './features/featureFlags';
+import { createLocalStorageSource, createUrlSource } from './features/flagSources';
+import { applyUrlFlagOverrides } from './features/flagOverrides';
+import { killSwitchSource, recordCaughtError } from './features/killSwitches';
+
+// Deliver monitoring events to the configured endpoint (the dev server mocks /api/errors)
+ErrorTransport.configure({
+  endpoint: import.meta.env.VITE_ERROR_REPORTING_URL ?? (import.meta.env.DEV ? '/api/errors' : undefined)
+});
+ErrorTransport.install();
+
+// Track online/offline state, confirmed against a heartbeat URL when one is configured
+ConnectivityMonitor.configure({ heartbeatUrl: import.meta.env.VITE_HEARTBEAT_URL });
+ConnectivityMonitor.start();
+
+// Resolve minified stack frames in reports against the build's source maps
+if (import.meta.env.VITE_SYMBOLICATE_STACKS === 'true') {
+  setSymbolicator(createSourceMapSymbolicator({ sourceMapBaseUrl: import.meta.env.VITE_SOURCE_MAPS_URL }));
+}
+
+// Remote flag definitions when configured, with local overrides taking precedence
+if (import.meta.env.VITE_FEATURE_FLAGS_URL) {
+  addFlagSource(createUrlSource({ url: import.meta.env.VITE_FEATURE_FLAGS_URL, pollIntervalMs: 60000 }));
+}
+
+// In development, overrides shared through a link (`?ff=NAME:off`) are saved before the source loads them
+if (import.meta.env.DEV) {
+  applyUrlFlagOverrides();
+}
+addFlagSource(createLocalStorageSource());
+
+// Flags switched off this session after their errors spiked; these win over every source
+addFlagSource(killSwitchSource);
+
+// Collect clicks, navigation, console warnings and error store changes as breadcrumbs
+installBreadcrumbCollectors();
 
 // Set up global error handlers for unhandled errors
 window.onerror = (message, source, lineno, colno, error) => {
   const processedError = ErrorManager.handle(error || message);
+  recordCaughtError(error, processedError);
   
   // Log to monitoring service
   logErrorToMonitoring(processedError, {
@@ -30,6 +71,7 @@ window.onerror = (message, source, lineno, colno, error) => {
 // Handle unhandled promise rejections
 window.onunhandledrejection = (event) => {
   const processedError = ErrorManager.handle(event.reason);
+  recordCaughtError(event.reason, processedError);
   
   // Log to monitoring service
   logErrorToMonitoring(processedError, {
@@ -41,11 +83,8 @@ window.onunhandledrejection = (event) => {
   setError(processedError);
 };
 
-// Simulate setting user context for error reporting
-setUserContext('demo-user-123', {
-  role: 'admin',
-  email: 'demo@example.com'
-});
+// Tag reported errors with the deployed version; call setUserContext after login
+setRelease(import.meta.env.VITE_RELEASE);
 
 // Render the application
 createRoot(document.getElementById('root')!).render(
@@ -7,8 +7,10 @@ import {
   NotFoundError, ServerError, ValidationError 
 } from '../errors/classes';
 import useErrorStore from '../store/errorStore';
-import { isFeatureEnabled, updateFeatureFlag } from '../features/featureFlags';
+import { FeatureFlagName } from '../types';
+import { updateFeatureFlag } from '../features/featureFlags';
 import useApi from '../hooks/useApi';
+import useFeatureFlag from '../hooks/useFeatureFlag';
 import { logErrorToMonitoring } from '../services/errorLogging';
 import { withErrorHandling, retryWithBackoff } from '../utils/errorDecorator';
 
@@ -27,7 +29,9 @@ const ErrorDemo: React.FC = () => {
   const [localError, setLocalError] = useState<Error | null>(null);
   const [buggyVisible, setBuggyVisible] = useState(false);
   const { setError } = useErrorStore();
-  const { execute, loading, error } = useApi<{ data: string }>();
+  const { execute, loading, error, attempt, retrying } = useApi<{ data: string }>();
+  const stackTracesEnabled = useFeatureFlag('ENABLE_ERROR_STACK_TRACES');
+  const autoRetryEnabled = useFeatureFlag('ENABLE_AUTOMATIC_RETRY');
 
   /**
    * Demo: Trigger different types of errors
@@ -157,12 +161,9 @@ const ErrorDemo: React.FC = () => {
   /**
    * Demo: Toggle feature flag
    */
-  const toggleFeatureFlag = (flagName: string) => {
-    const isEnabled = isFeatureEnabled(flagName);
+  const toggleFeatureFlag = (flagName: FeatureFlagName, isEnabled: boolean) => {
+    // Components using useFeatureFlag re-render with the new value
     updateFeatureFlag(flagName, !isEnabled);
-    // Force re-render
-    setLocalError(null);
-    setLocalError(null);
   };
 
   /**
@@ -287,6 +288,11 @@ const ErrorDemo: React.FC = () => {
                     <SkeletonLoader height={16} width="40%" />
                   </div>
                 </div>
+                {retrying && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Retrying request (attempt {attempt})...
+                  </p>
+                )}
               </div>
             )}
             
@@ -343,26 +349,26 @@ const ErrorDemo: React.FC = () => {
               <div className="flex items-center mb-2">
                 <span className="text-sm mr-3">Error Stack Traces:</span>
                 <button
-                  onClick={() => toggleFeatureFlag('ENABLE_ERROR_STACK_TRACES')}
+                  onClick={() => toggleFeatureFlag('ENABLE_ERROR_STACK_TRACES', stackTracesEnabled)}
                   className={`relative inline-flex h-6 w-11 items-center rounded-full ${
-                    isFeatureEnabled('ENABLE_ERROR_STACK_TRACES') ? 'bg-green-500' : 'bg-gray-300'
+                    stackTracesEnabled ? 'bg-green-500' : 'bg-gray-300'
                   }`}
                 >
                   <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition ${
-                    isFeatureEnabled('ENABLE_ERROR_STACK_TRACES') ? 'translate-x-6' : 'translate-x-1'
+                    stackTracesEnabled ? 'translate-x-6' : 'translate-x-1'
                   }`} />
                 </button>
               </div>
               <div className="flex items-center">
                 <span className="text-sm mr-3">Auto-Retry:</span>
                 <button
-                  onClick={() => toggleFeatureFlag('ENABLE_AUTOMATIC_RETRY')}
+                  onClick={() => toggleFeatureFlag('ENABLE_AUTOMATIC_RETRY', autoRetryEnabled)}
                   className={`relative inline-flex h-6 w-11 items-center rounded-full ${
-                    isFeatureEnabled('ENABLE_AUTOMATIC_RETRY') ? 'bg-green-500' : 'bg-gray-300'
+                    autoRetryEnabled ? 'bg-green-500' : 'bg-gray-300'
                   }`}
                 >
                   <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition ${
-                    isFeatureEnabled('ENABLE_AUTOMATIC_RETRY') ? 'translate-x-6' : 'translate-x-1'
+                    autoRetryEnabled ? 'translate-x-6' : 'translate-x-1'
                   }`} />
                 </button>
               </div>
@@ -0,0 +1,324 @@
+import axios, { AxiosInstance, CreateAxiosDefaults, InternalAxiosRequestConfig } from 'axios';
+import ErrorManager from '../errors/ErrorManager';
+import { BaseError, CancelledError, SessionExpiredError } from '../errors/classes';
+import { RetryPolicy, ScopeData } from '../types';
+import { getFlagValue, isFeatureEnabled } from '../features/featureFlags';
+import { recordCaughtError } from '../features/killSwitches';
+import { getRetryDelay, isRetryableError, resolveRetryPolicy } from '../utils/retryPolicy';
+import { createRequestId, createTraceparent, getEchoedRequestId } from '../utils/correlation';
+import { logErrorToMonitoring } from './errorLogging';
+import { recordHttpBreadcrumb } from './breadcrumbs';
+import CircuitBreakers from './circuitBreaker';
+import { emitSessionExpired } from './sessionEvents';
+import { withScope } from './errorScope';
+
+/**
+ * API client factory
+ * Creates axios instances whose interceptors give every call path the same behaviour:
+ * request IDs, circuit breaking, breadcrumbs, retries, auth refresh, translation
+ * into our error classes and reporting. Failed requests reject with a BaseError
+ */
+
+/**
+ * Token refresh configuration
+ */
+export interface AuthRefreshOptions {
+  // Refresh the session; may resolve a new access token used for replayed requests
+  refresh: () => Promise<string | void>;
+  // Error codes (HTTP status or body "code") that trigger a refresh (default [401])
+  errorCodes?: Array<string | number>;
+  // Put a refreshed token on a replayed request (default: Authorization: Bearer <token>)
+  applyToken?: (config: InternalAxiosRequestConfig, token: string) => void;
+}
+
+/**
+ * How requests are tagged for correlation with backend logs
+ * "request-id" sends a UUID in `header` (default X-Request-ID);
+ * "traceparent" sends a W3C trace context header and uses its trace ID
+ */
+export interface CorrelationOptions {
+  format?: 'request-id' | 'traceparent';
+  header?: string;
+}
+
+/**
+ * Outcome of a refresh shared by every request waiting on it
+ */
+type RefreshResult = { ok: true; token?: string } | { ok: false; error: SessionExpiredError };
+
+/**
+ * Per-request bookkeeping kept on the axios config
+ */
+interface RequestMetadata {
+  startedAt: number;
+  // 1 for the first attempt, incremented on every retry
+  attempt: number;
+  // Whether the request was let through by a circuit breaker and must report back
+  circuitEntered?: boolean;
+  // Whether the request has already been replayed after an auth refresh
+  authRetried?: boolean;
+  // Number of completed refreshes when the request was sent
+  sessionVersion?: number;
+  // Correlation ID sent with the request
+  requestId?: string;
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Retry policy overrides for this request, or false to disable retries
+    retry?: Partial<RetryPolicy> | false;
+    // Called before each retry with the error, the failed attempt number and the delay
+    onRetry?: (error: BaseError, attempt: number, delayMs: number) => void;
+    // Report a failure of this request to monitoring (default true)
+    report?: boolean;
+    // Extra scope data (e.g. tags from an ErrorScope) merged into the report
+    scope?: Partial<ScopeData>;
+    metadata?: RequestMetadata;
+  }
+}
+
+/**
+ * Client configuration
+ */
+export interface ApiClientOptions {
+  baseURL?: string;
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+  // Policy merged over the default retry policy, or false to disable retries
+  retryPolicy?: Partial<RetryPolicy> | false;
+  // Correlation ID sent with every request, or false to send none
+  correlation?: CorrelationOptions | false;
+  // Guard requests with the per-endpoint circuit breakers
+  circuitBreaker?: boolean;
+  // Report failures to monitoring once retries are exhausted
+  report?: boolean;
+  // Refresh the session on auth failures and replay the failed requests
+  auth?: AuthRefreshOptions;
+  // Extra axios defaults
+  axiosConfig?: CreateAxiosDefaults;
+}
+
+/**
+ * Wait for a delay, rejecting with CancelledError if the request is aborted meanwhile
+ */
+const wait = (delayMs: number, signal?: InternalAxiosRequestConfig['signal']): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', handleAbort);
+      resolve();
+    }, delayMs);
+
+    signal?.addEventListener?.('abort', handleAbort);
+  });
+};
+
+const applyBearerToken = (config: InternalAxiosRequestConfig, token: string): void => {
+  config.headers.set('Authorization', `Bearer ${token}`);
+};
+
+/**
+ * Check whether a failure should trigger a session refresh
+ */
+const isAuthFailure = (
+  error: BaseError,
+  responseData: unknown,
+  errorCodes: Array<string | number>
+): boolean => {
+  const bodyCode = responseData && typeof responseData === 'object' && 'code' in responseData
+    ? (responseData as { code: unknown }).code
+    : undefined;
+
+  return (error.code !== undefined && errorCodes.includes(error.code)) ||
+    ((typeof bodyCode === 'string' || typeof bodyCode === 'number') && errorCodes.includes(bodyCode));
+};
+
+/**
+ * Create an axios instance with the error handling interceptors installed
+ */
+export const createApiClient = (options: ApiClientOptions = {}): AxiosInstance => {
+  const {
+    baseURL,
+    timeoutMs,
+    headers,
+    retryPolicy,
+    correlation = {},
+    circuitBreaker = true,
+    report = true,
+    auth,
+    axiosConfig
+  } = options;
+
+  const client = axios.create({ ...axiosConfig, baseURL, timeout: timeoutMs, headers });
+
+  // The refresh in progress; concurrent auth failures all wait on this one call
+  let refreshing: Promise<RefreshResult> | null = null;
+  // Completed refreshes and the token of the latest one, so a request sent with an
+  // older session is replayed with the current one instead of refreshing again
+  let sessionVersion = 0;
+  let sessionToken: string | undefined;
+
+  const refreshSession = (refresh: AuthRefreshOptions['refresh'], cause: BaseError): Promise<RefreshResult> => {
+    if (!refreshing) {
+      refreshing = refresh()
+        .then((token): RefreshResult => {
+          sessionVersion++;
+          sessionToken = token || undefined;
+          return { ok: true, token: sessionToken };
+        })
+        .catch((refreshError: unknown): RefreshResult => {
+          const error = new SessionExpiredError(undefined, undefined, undefined, { cause: refreshError ?? cause });
+
+          // Announced once, however many requests were waiting
+          emitSessionExpired(error);
+          return { ok: false, error };
+        })
+        .finally(() => {
+          refreshing = null;
+        });
+    }
+
+    return refreshing;
+  };
+
+  const applyToken = (config: InternalAxiosRequestConfig, token: string | undefined): void => {
+    if (token) (auth?.applyToken ?? applyBearerToken)(config, token);
+  };
+
+  client.interceptors.request.use(async (config) => {
+    const metadata: RequestMetadata = { attempt: 1, ...config.metadata, startedAt: Date.now() };
+
+    // Hold new requests while the session is being refreshed so they don't fail with a stale token
+    if (refreshing) {
+      const result = await refreshing;
+      if (result.ok) applyToken(config, result.token);
+    }
+    metadata.sessionVersion = sessionVersion;
+
+    // Replays keep the ID of the original request
+    if (correlation && !metadata.requestId) {
+      if (correlation.format === 'traceparent') {
+        const { traceparent, traceId } = createTraceparent();
+        config.headers.set(correlation.header ?? 'traceparent', traceparent);
+        metadata.requestId = traceId;
+      } else {
+        metadata.requestId = createRequestId();
+        config.headers.set(correlation.header ?? 'X-Request-ID', metadata.requestId);
+      }
+    }
+
+    if (circuitBreaker && isFeatureEnabled('ENABLE_CIRCUIT_BREAKER')) {
+      CircuitBreakers.beforeRequest(client.getUri(config));
+      metadata.circuitEntered = true;
+    }
+
+    config.metadata = metadata;
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response) => {
+      const { config } = response;
+      const url = client.getUri(config);
+
+      recordHttpBreadcrumb(config.method ?? 'GET', url, response.status);
+      if (config.metadata?.circuitEntered) {
+        CircuitBreakers.recordSuccess(url);
+      }
+
+      return response;
+    },
+    async (error: unknown) => {
+      // Errors raised before the request was sent (e.g. an open circuit) are already ours
+      if (!axios.isAxiosError(error) || !error.config) {
+        throw axios.isAxiosError(error) ? ErrorManager.createFromAxiosError(error) : error;
+      }
+
+      const { config } = error;
+      const metadata = config.metadata ?? { attempt: 1, startedAt: Date.now() };
+      const url = client.getUri(config);
+
+      recordHttpBreadcrumb(config.method ?? 'GET', url, error.response?.status);
+      if (metadata.circuitEntered) {
+        CircuitBreakers.recordFailure(url, error);
+      }
+
+      let translated = ErrorManager.createFromAxiosError(error, Date.now() - metadata.startedAt);
+
+      // Prefer the ID the server logged the request under
+      translated.requestId = getEchoedRequestId(
+        error.response?.headers,
+        correlation && correlation.format !== 'traceparent' ? correlation.header : undefined
+      ) ?? metadata.requestId;
+
+      // Refresh once, then replay; a request failing again after its replay is not refreshed again
+      if (auth && !metadata.authRetried &&
+          isAuthFailure(translated, error.response?.data, auth.errorCodes ?? [401])) {
+        // Sent before a refresh that has since completed: its credentials were already stale
+        const result: RefreshResult = (metadata.sessionVersion ?? sessionVersion) < sessionVersion
+          ? { ok: true, token: sessionToken }
+          : await refreshSession(auth.refresh, translated);
+
+        if (result.ok) {
+          applyToken(config, result.token);
+          return client.request({ ...config, metadata: { ...metadata, authRetried: true } });
+        }
+
+        translated = result.error;
+      }
+
+      const retryEnabled = isFeatureEnabled('ENABLE_AUTOMATIC_RETRY') &&
+        retryPolicy !== false && config.retry !== false;
+
+      if (retryEnabled) {
+        const policy = resolveRetryPolicy(
+          { maxAttempts: getFlagValue('RETRY_MAX_ATTEMPTS') },
+          retryPolicy || undefined,
+          config.retry || undefined
+        );
+
+        if (metadata.attempt < policy.maxAttempts && isRetryableError(translated, policy)) {
+          const delayMs = getRetryDelay(translated, metadata.attempt, policy);
+          config.onRetry?.(translated, metadata.attempt, delayMs);
+
+          await wait(delayMs, config.signal);
+          return client.request({ ...config, metadata: { ...metadata, attempt: metadata.attempt + 1 } });
+        }
+      }
+
+      const processed = ErrorManager.handle(translated);
+      recordCaughtError(translated, processed, config.scope);
+
+      if (report && config.report !== false) {
+        if (isFeatureEnabled('ENABLE_ERROR_REPORTING') && ErrorManager.shouldReport(processed)) {
+          withScope((scope) => {
+            scope.apply(config.scope);
+            logErrorToMonitoring(processed, {
+              url,
+              method: (config.method ?? 'GET').toUpperCase(),
+              attempts: metadata.attempt
+            });
+          });
+        }
+
+        // Later handlers see the flag and don't report the same failure again
+        translated.reported = true;
+      }
+
+      throw translated;
+    }
+  );
+
+  return client;
+};
+
+// Default client used by useApi
+export default createApiClient();
@@ -0,0 +1,181 @@
+import { Breadcrumb, BreadcrumbLevel } from '../types';
+import { RingBuffer } from '../utils/ringBuffer';
+import { safeStringify } from '../utils/stringify';
+import { isFeatureEnabled } from '../features/featureFlags';
+import useErrorStore from '../store/errorStore';
+
+/**
+ * Breadcrumb trail attached to reported errors
+ * Keeps the most recent events in a bounded ring buffer and provides
+ * automatic collectors, each switchable by its own feature flag
+ */
+
+const DEFAULT_MAX_BREADCRUMBS = 50;
+const MAX_TEXT_LENGTH = 80;
+
+const buffer = new RingBuffer<Breadcrumb>(DEFAULT_MAX_BREADCRUMBS);
+
+/**
+ * Add a breadcrumb to the trail
+ */
+export const recordBreadcrumb = (
+  message: string,
+  category = 'user',
+  level: BreadcrumbLevel = 'info',
+  data?: Record<string, unknown>
+): void => {
+  buffer.push({
+    message,
+    category,
+    level,
+    timestamp: new Date().toISOString(),
+    data
+  });
+};
+
+/**
+ * Get the current trail, oldest first
+ */
+export const getBreadcrumbs = (): Breadcrumb[] => buffer.toArray();
+
+/**
+ * Clear the trail
+ */
+export const clearBreadcrumbs = (): void => buffer.clear();
+
+/**
+ * Change how many breadcrumbs are kept
+ */
+export const setMaxBreadcrumbs = (max: number): void => buffer.resize(max);
+
+/**
+ * Record an API request made through useApi
+ */
+export const recordHttpBreadcrumb = (method: string, url: string, status?: number): void => {
+  if (!isFeatureEnabled('BREADCRUMBS_HTTP')) return;
+
+  const failed = status === undefined || status === 0 || status >= 400;
+  recordBreadcrumb(
+    `${method.toUpperCase()} ${url} ${status || 'failed'}`,
+    'http',
+    failed ? 'error' : 'info',
+    { method: method.toUpperCase(), url, status }
+  );
+};
+
+const truncate = (text: string): string =>
+  text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+
+/**
+ * Describe a clicked element, e.g. button#save.primary "Save"
+ */
+const describeElement = (element: Element): string => {
+  const id = element.id ? `#${element.id}` : '';
+  const classes = typeof element.className === 'string' && element.className.trim()
+    ? `.${element.className.trim().split(/\s+/).slice(0, 2).join('.')}`
+    : '';
+  const text = element.textContent?.trim().replace(/\s+/g, ' ');
+
+  return `${element.tagName.toLowerCase()}${id}${classes}${text ? ` "${truncate(text)}"` : ''}`;
+};
+
+const installClickCollector = (): (() => void) => {
+  const handleClick = (event: MouseEvent) => {
+    if (!isFeatureEnabled('BREADCRUMBS_CLICKS') || !(event.target instanceof Element)) return;
+
+    // Prefer the interactive element over whatever inner node was hit
+    const target = event.target.closest('button, a, input, select, [role="button"]') ?? event.target;
+    recordBreadcrumb(`Clicked ${describeElement(target)}`, 'ui.click');
+  };
+
+  document.addEventListener('click', handleClick, true);
+  return () => document.removeEventListener('click', handleClick, true);
+};
+
+const installNavigationCollector = (): (() => void) => {
+  let lastUrl = window.location.href;
+
+  const recordNavigation = () => {
+    const nextUrl = window.location.href;
+    if (nextUrl === lastUrl) return;
+
+    if (isFeatureEnabled('BREADCRUMBS_NAVIGATION')) {
+      recordBreadcrumb(`Navigated to ${window.location.pathname}`, 'navigation', 'info', {
+        from: lastUrl,
+        to: nextUrl
+      });
+    }
+    lastUrl = nextUrl;
+  };
+
+  const { pushState, replaceState } = window.history;
+
+  window.history.pushState = function (...args: Parameters<History['pushState']>) {
+    pushState.apply(this, args);
+    recordNavigation();
+  };
+  window.history.replaceState = function (...args: Parameters<History['replaceState']>) {
+    replaceState.apply(this, args);
+    recordNavigation();
+  };
+  window.addEventListener('popstate', recordNavigation);
+  window.addEventListener('hashchange', recordNavigation);
+
+  return () => {
+    window.history.pushState = pushState;
+    window.history.replaceState = replaceState;
+    window.removeEventListener('popstate', recordNavigation);
+    window.removeEventListener('hashchange', recordNavigation);
+  };
+};
+
+const installConsoleCollector = (): (() => void) => {
+  const originalWarn = console.warn;
+
+  console.warn = (...args: unknown[]) => {
+    if (isFeatureEnabled('BREADCRUMBS_CONSOLE')) {
+      const message = args
+        .map(arg => (typeof arg === 'string' ? arg : arg instanceof Error ? arg.message : safeStringify(arg)))
+        .join(' ');
+      recordBreadcrumb(truncate(message), 'console', 'warning');
+    }
+    originalWarn.apply(console, args);
+  };
+
+  return () => {
+    console.warn = originalWarn;
+  };
+};
+
+const installErrorStoreCollector = (): (() => void) => {
+  return useErrorStore.subscribe((state, previous) => {
+    if (!isFeatureEnabled('BREADCRUMBS_ERROR_STORE') || state.currentError === previous.currentError) {
+      return;
+    }
+
+    if (state.currentError) {
+      recordBreadcrumb(`Error set: ${truncate(state.currentError.message)}`, 'error-store', 'error', {
+        category: state.currentError.category,
+        severity: state.currentError.severity,
+        code: state.currentError.code
+      });
+    } else {
+      recordBreadcrumb('Error cleared', 'error-store');
+    }
+  });
+};
+
+/**
+ * Install the automatic breadcrumb collectors, returning a function that removes them
+ * Collectors stay installed; their feature flags are checked as events happen
+ */
+export const installBreadcrumbCollectors = (): (() => void) => {
+  const uninstallers = [
+    installClickCollector(),
+    installNavigationCollector(),
+    installConsoleCollector(),
+    installErrorStoreCollector()
+  ];
+
+  return () => uninstallers.forEach(uninstall => uninstall());
+};
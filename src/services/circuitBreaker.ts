@@ -0,0 +1,260 @@
+import { CircuitBreakerOptions, CircuitBreakerSnapshot, CircuitState, ErrorCategory } from '../types';
+import { BaseError, CircuitOpenError } from '../errors/classes';
+import useErrorStore from '../store/errorStore';
+import axios, { AxiosError } from 'axios';
+
+/**
+ * Circuit breakers per endpoint
+ * Requests are grouped by a registered route pattern, or by host when no pattern
+ * matches. After repeated failures a group's circuit opens and requests fail fast
+ * with CircuitOpenError until a trial request succeeds after the cool-down
+ */
+
+/**
+ * Decides whether an error counts towards opening the circuit
+ */
+export type CircuitFailurePredicate = (error: unknown) => boolean;
+
+interface CircuitRoute {
+  key: string;
+  matcher: RegExp;
+  options: Partial<CircuitBreakerOptions>;
+}
+
+interface Circuit {
+  key: string;
+  state: CircuitState;
+  options: CircuitBreakerOptions;
+  failures: number[];
+  openedAt?: number;
+  halfOpenRequests: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  failureWindowMs: 60000,
+  coolDownMs: 30000,
+  halfOpenMaxRequests: 1
+};
+
+/**
+ * Only outages count: network failures and 5xx responses, not 4xx responses,
+ * cancellations or requests we refused ourselves
+ */
+const defaultIsFailure: CircuitFailurePredicate = (error) => {
+  if (axios.isAxiosError(error)) {
+    return error.response ? error.response.status >= 500 : error.code !== AxiosError.ERR_CANCELED;
+  }
+
+  return error instanceof BaseError &&
+    !(error instanceof CircuitOpenError) &&
+    (error.category === ErrorCategory.NETWORK ||
+      (error.category === ErrorCategory.SERVER && typeof error.code === 'number' && error.code >= 500));
+};
+
+/**
+ * Turn a pattern like "api.example.com/users/*" into a regular expression
+ */
+const patternToRegExp = (pattern: string): RegExp => {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+};
+
+/**
+ * CircuitBreakerRegistry: Tracks one circuit per endpoint group
+ */
+class CircuitBreakerRegistry {
+  private defaults: CircuitBreakerOptions = { ...DEFAULT_OPTIONS };
+  private routes: CircuitRoute[] = [];
+  private circuits = new Map<string, Circuit>();
+  private isFailure: CircuitFailurePredicate = defaultIsFailure;
+
+  /**
+   * Update the options used by circuits without route-specific options
+   */
+  configure(options: Partial<CircuitBreakerOptions>, isFailure?: CircuitFailurePredicate): void {
+    this.defaults = { ...this.defaults, ...options };
+    if (isFailure) this.isFailure = isFailure;
+  }
+
+  /**
+   * Group requests matching a pattern under one circuit
+   * String patterns match "host/path" and support * wildcards; earlier routes win
+   */
+  register(pattern: string | RegExp, options: Partial<CircuitBreakerOptions> = {}): () => void {
+    const key = pattern.toString();
+    this.routes = this.routes.filter(route => route.key !== key);
+    this.routes.push({
+      key,
+      matcher: typeof pattern === 'string' ? patternToRegExp(pattern) : pattern,
+      options
+    });
+
+    return () => {
+      this.routes = this.routes.filter(route => route.key !== key);
+    };
+  }
+
+  /**
+   * Key of the circuit a URL belongs to: its matching route pattern or its host
+   */
+  getKey(url: string): string {
+    const base = typeof window === 'undefined' ? 'http://localhost' : window.location.href;
+    let target: URL;
+    try {
+      target = new URL(url, base);
+    } catch {
+      return url;
+    }
+
+    const path = `${target.host}${target.pathname}`;
+    return this.routes.find(route => route.matcher.test(path))?.key ?? target.host;
+  }
+
+  /**
+   * Check a request may be sent, throwing CircuitOpenError while the circuit is open
+   * Must be paired with recordSuccess or recordFailure once the request settles
+   */
+  beforeRequest(url: string): void {
+    const circuit = this.getCircuit(this.getKey(url));
+
+    if (circuit.state === 'open') {
+      const retryAt = (circuit.openedAt ?? 0) + circuit.options.coolDownMs;
+
+      if (Date.now() < retryAt) {
+        throw new CircuitOpenError(
+          undefined,
+          Math.ceil((retryAt - Date.now()) / 1000),
+          undefined,
+          { key: circuit.key, url }
+        );
+      }
+
+      this.transition(circuit, 'half-open');
+    }
+
+    if (circuit.state === 'half-open') {
+      if (circuit.halfOpenRequests >= circuit.options.halfOpenMaxRequests) {
+        throw new CircuitOpenError(undefined, undefined, undefined, { key: circuit.key, url });
+      }
+      circuit.halfOpenRequests++;
+    }
+  }
+
+  /**
+   * Record a successful request, closing a half-open circuit
+   */
+  recordSuccess(url: string): void {
+    const circuit = this.getCircuit(this.getKey(url));
+
+    circuit.failures = [];
+    if (circuit.state !== 'closed') {
+      this.transition(circuit, 'closed');
+    }
+  }
+
+  /**
+   * Record a failed request, opening the circuit once the threshold is reached
+   * Errors that don't indicate an outage only release a half-open trial slot
+   */
+  recordFailure(url: string, error: unknown): void {
+    const circuit = this.getCircuit(this.getKey(url));
+
+    if (!this.isFailure(error)) {
+      if (circuit.state === 'half-open') {
+        circuit.halfOpenRequests = Math.max(0, circuit.halfOpenRequests - 1);
+      }
+      return;
+    }
+
+    const now = Date.now();
+    circuit.failures = [...circuit.failures, now].filter(
+      time => now - time <= circuit.options.failureWindowMs
+    );
+
+    if (circuit.state === 'half-open' || circuit.failures.length >= circuit.options.failureThreshold) {
+      this.transition(circuit, 'open');
+    } else {
+      this.publish(circuit);
+    }
+  }
+
+  /**
+   * Get the current state of every known circuit
+   */
+  getSnapshots(): CircuitBreakerSnapshot[] {
+    return Array.from(this.circuits.values()).map(circuit => this.toSnapshot(circuit));
+  }
+
+  /**
+   * Close every circuit and forget their failures
+   */
+  reset(): void {
+    this.circuits.forEach(circuit => {
+      if (circuit.timer) clearTimeout(circuit.timer);
+      useErrorStore.getState().removeCircuitBreaker(circuit.key);
+    });
+    this.circuits.clear();
+  }
+
+  private getCircuit(key: string): Circuit {
+    let circuit = this.circuits.get(key);
+
+    if (!circuit) {
+      const route = this.routes.find(candidate => candidate.key === key);
+      circuit = {
+        key,
+        state: 'closed',
+        options: { ...this.defaults, ...route?.options },
+        failures: [],
+        halfOpenRequests: 0
+      };
+      this.circuits.set(key, circuit);
+    }
+
+    return circuit;
+  }
+
+  private transition(circuit: Circuit, state: CircuitState): void {
+    if (circuit.timer) {
+      clearTimeout(circuit.timer);
+      circuit.timer = undefined;
+    }
+
+    circuit.state = state;
+    circuit.halfOpenRequests = 0;
+
+    if (state === 'open') {
+      circuit.openedAt = Date.now();
+
+      // Let the UI know the service may be back once the cool-down has passed
+      circuit.timer = setTimeout(() => {
+        if (circuit.state === 'open') this.transition(circuit, 'half-open');
+      }, circuit.options.coolDownMs);
+    } else if (state === 'closed') {
+      circuit.openedAt = undefined;
+    }
+
+    this.publish(circuit);
+  }
+
+  private publish(circuit: Circuit): void {
+    useErrorStore.getState().setCircuitBreaker(this.toSnapshot(circuit));
+  }
+
+  private toSnapshot(circuit: Circuit): CircuitBreakerSnapshot {
+    return {
+      key: circuit.key,
+      state: circuit.state,
+      failures: circuit.failures.length,
+      openedAt: circuit.openedAt ? new Date(circuit.openedAt).toISOString() : undefined,
+      retryAt: circuit.state === 'open' && circuit.openedAt
+        ? new Date(circuit.openedAt + circuit.options.coolDownMs).toISOString()
+        : undefined
+    };
+  }
+}
+
+// Export as singleton so every request shares the same circuits
+export default new CircuitBreakerRegistry();
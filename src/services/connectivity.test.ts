@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import ConnectivityMonitor from './connectivity';
+
+describe('ConnectivityMonitor.reportOffline', () => {
+  const browser = { onLine: true };
+
+  beforeEach(() => {
+    browser.onLine = true;
+    vi.stubGlobal('navigator', browser);
+    vi.stubGlobal('window', new EventTarget());
+    ConnectivityMonitor.start();
+  });
+
+  afterEach(() => {
+    // Leave the monitor online for the next test
+    browser.onLine = true;
+    window.dispatchEvent(new Event('online'));
+    ConnectivityMonitor.stop();
+    ConnectivityMonitor.configure({ heartbeatUrl: undefined });
+    vi.unstubAllGlobals();
+  });
+
+  it('goes offline while the browser is offline and back online with it', () => {
+    browser.onLine = false;
+    ConnectivityMonitor.reportOffline();
+    expect(ConnectivityMonitor.isOnline()).toBe(false);
+
+    browser.onLine = true;
+    window.dispatchEvent(new Event('online'));
+    expect(ConnectivityMonitor.isOnline()).toBe(true);
+  });
+
+  it('stays online when the connection came back before the failure was reported', () => {
+    // The request failed offline, then the online event fired before its catch block ran
+    browser.onLine = false;
+    window.dispatchEvent(new Event('offline'));
+    browser.onLine = true;
+    window.dispatchEvent(new Event('online'));
+
+    ConnectivityMonitor.reportOffline();
+
+    expect(ConnectivityMonitor.isOnline()).toBe(true);
+  });
+
+  it('lets the heartbeat confirm the connection after a reported failure', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response(null));
+    vi.stubGlobal('fetch', fetch);
+    ConnectivityMonitor.configure({ heartbeatUrl: '/health' });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+
+    ConnectivityMonitor.reportOffline();
+    expect(ConnectivityMonitor.isOnline()).toBe(false);
+
+    await vi.waitFor(() => expect(ConnectivityMonitor.isOnline()).toBe(true));
+  });
+});
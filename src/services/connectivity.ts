@@ -0,0 +1,219 @@
+/**
+ * Connectivity monitoring
+ * Tracks whether the app can reach the network using the browser's online/offline
+ * events and, optionally, a heartbeat URL that confirms the backend is reachable
+ */
+
+/**
+ * Current connectivity status
+ */
+export interface ConnectivityStatus {
+  online: boolean;
+  // What last determined the status
+  source: 'browser' | 'heartbeat';
+  lastChanged: string;
+}
+
+/**
+ * Monitor configuration
+ */
+export interface ConnectivityConfig {
+  // URL probed with a HEAD request; leave unset to rely on browser events only
+  heartbeatUrl?: string;
+  heartbeatIntervalMs: number;
+  heartbeatTimeoutMs: number;
+}
+
+type ConnectivityListener = (status: ConnectivityStatus) => void;
+
+const DEFAULT_CONFIG: ConnectivityConfig = {
+  heartbeatIntervalMs: 30000,
+  heartbeatTimeoutMs: 5000
+};
+
+/**
+ * ConnectivityMonitor: Subscribable source of truth for online/offline state
+ */
+class ConnectivityMonitor {
+  private config: ConnectivityConfig = { ...DEFAULT_CONFIG };
+  private status: ConnectivityStatus = {
+    online: typeof navigator === 'undefined' ? true : navigator.onLine,
+    source: 'browser',
+    lastChanged: new Date().toISOString()
+  };
+  private listeners = new Set<ConnectivityListener>();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private started = false;
+
+  /**
+   * Update the monitor configuration, restarting the heartbeat if running
+   */
+  configure(config: Partial<ConnectivityConfig>): void {
+    this.config = { ...this.config, ...config };
+
+    if (this.started) {
+      this.stopHeartbeat();
+      this.startHeartbeat();
+    }
+  }
+
+  /**
+   * Start listening for connectivity changes
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+    this.startHeartbeat();
+  }
+
+  /**
+   * Stop listening for connectivity changes
+   */
+  stop(): void {
+    this.started = false;
+
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    this.stopHeartbeat();
+  }
+
+  /**
+   * Get the current status
+   */
+  getStatus(): ConnectivityStatus {
+    return this.status;
+  }
+
+  isOnline(): boolean {
+    return this.status.online;
+  }
+
+  /**
+   * Subscribe to status changes, returning an unsubscribe function
+   */
+  subscribe(listener: ConnectivityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Resolve once the connection is back, or reject after timeoutMs or when the signal aborts
+   */
+  waitForOnline(timeoutMs?: number, signal?: AbortSignal): Promise<void> {
+    if (this.status.online) return Promise.resolve();
+    if (signal?.aborted) return Promise.reject(new Error('Stopped waiting for the connection'));
+
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const cleanup = () => {
+        if (timer) clearTimeout(timer);
+        unsubscribe();
+        signal?.removeEventListener('abort', handleAbort);
+      };
+
+      const handleAbort = () => {
+        cleanup();
+        reject(new Error('Stopped waiting for the connection'));
+      };
+
+      const unsubscribe = this.subscribe((status) => {
+        if (!status.online) return;
+        cleanup();
+        resolve();
+      });
+
+      signal?.addEventListener('abort', handleAbort, { once: true });
+
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          cleanup();
+          reject(new Error(`Still offline after ${timeoutMs}ms`));
+        }, timeoutMs);
+      }
+    });
+  }
+
+  /**
+   * Record that a request failed for lack of a connection
+   * The connection may have come back since the request failed, so the status is only
+   * set offline when the browser agrees or a heartbeat will report the connection's return
+   */
+  reportOffline(): void {
+    if (this.config.heartbeatUrl) {
+      this.setStatus(false, 'heartbeat');
+      void this.check();
+    } else if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      this.setStatus(false, 'browser');
+    }
+  }
+
+  /**
+   * Probe the heartbeat URL now, updating the status with the result
+   * Without a heartbeat URL the browser's view is returned as-is
+   */
+  async check(): Promise<boolean> {
+    const { heartbeatUrl, heartbeatTimeoutMs } = this.config;
+    if (!heartbeatUrl) return this.status.online;
+
+    if (!navigator.onLine) {
+      this.setStatus(false, 'browser');
+      return false;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), heartbeatTimeoutMs);
+
+    try {
+      // Any HTTP response proves the network path works
+      await fetch(heartbeatUrl, { method: 'HEAD', cache: 'no-store', signal: controller.signal });
+      this.setStatus(true, 'heartbeat');
+      return true;
+    } catch {
+      this.setStatus(false, 'heartbeat');
+      return false;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private handleOnline = (): void => {
+    this.setStatus(true, 'browser');
+
+    // The browser only knows a network interface is up; confirm the backend is reachable
+    void this.check();
+  };
+
+  private handleOffline = (): void => {
+    this.setStatus(false, 'browser');
+  };
+
+  private startHeartbeat(): void {
+    if (!this.config.heartbeatUrl) return;
+
+    void this.check();
+    this.heartbeatTimer = setInterval(() => void this.check(), this.config.heartbeatIntervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private setStatus(online: boolean, source: ConnectivityStatus['source']): void {
+    if (online === this.status.online) return;
+
+    this.status = { online, source, lastChanged: new Date().toISOString() };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+}
+
+// Export as singleton so the whole app shares one view of connectivity
+export default new ConnectivityMonitor();
@@ -1,15 +1,54 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { ErrorResponse } from '../types';
+import { BreadcrumbLevel, ErrorResponse } from '../types';
+import ErrorTransport, { MonitoringEvent } from './errorTransport';
+import { getBreadcrumbs, recordBreadcrumb } from './breadcrumbs';
+import { DedupeWindow } from '../utils/dedupeWindow';
+import ErrorManager from '../errors/ErrorManager';
+import { getCurrentScope, getSessionId, setUser } from './errorScope';
+import { redact } from './redaction';
+import { sampleReport } from './reportSampling';
+import { hasSymbolicator, symbolicateFrames } from './symbolication';
 
 /**
- * Simulated error monitoring/logging service
- * In a real application, this would integrate with tools like Sentry, LogRocket, or a custom backend
+ * Error monitoring/logging service
+ * Events are delivered through ErrorTransport; configure its endpoint to enable sending
  */
 
 interface LogContext {
   [key: string]: any;
 }
 
+// Repeats of the same fingerprint within this window are counted but not sent
+const DEFAULT_DEDUPE_WINDOW_MS = 60000;
+
+const reportDeduplicator = new DedupeWindow(DEFAULT_DEDUPE_WINDOW_MS);
+
+/**
+ * Configure how long repeats of the same error are held back from reporting
+ */
+export const setReportDedupeWindow = (windowMs: number): void => {
+  reportDeduplicator.setWindow(windowMs);
+};
+
+/**
+ * Resolve an event's frames to original source
+ * Runs as the transport sends a batch, so an event reported just before the page
+ * unloads is still in the beacon, with its minified frames
+ */
+const symbolicateEvent = async (event: MonitoringEvent): Promise<MonitoringEvent> => {
+  const error = event.error as ErrorResponse;
+
+  // Already resolved, e.g. re-sent after a failed delivery
+  if (!error.frames?.length || !hasSymbolicator() || error.frames.some(frame => frame.symbolicated)) {
+    return event;
+  }
+
+  const resolved = await symbolicateFrames(error.frames);
+  return { ...event, error: { ...error, frames: redact(resolved) } };
+};
+
+ErrorTransport.configure({ prepare: symbolicateEvent });
+
 /**
  * Log an error to the monitoring service
  */
@@ -17,28 +56,63 @@ export const logErrorToMonitoring = (
   error: ErrorResponse,
   context: LogContext = {}
 ): void => {
-  // In a real app, this would send the error to a service like Sentry
-  console.log('[ERROR MONITORING]', {
+  // Cancelled requests are expected and never reported; others may already have been sent
+  if (ErrorManager.isCancelled(error) || error.reported) return;
+  
+  const { user, tags, extras, flags: scopeFlags, release } = getCurrentScope().getData();
+  const flags = scopeFlags || error.flags ? { ...scopeFlags, ...error.flags } : undefined;
+  
+  const now = Date.now();
+  const { allowed, stats } = error.fingerprint
+    ? reportDeduplicator.check(error.fingerprint, now, false)
+    : { allowed: true, stats: undefined };
+  
+  // A repeat within the dedupe window; it will be counted on the next report
+  if (!allowed) return;
+  
+  // Sampled out or over the rate limit; counted in `dropped` on the next event that is sent
+  const sampling = sampleReport(error, now);
+  if (!sampling.sampled) return;
+  
+  // Only a sent event opens the dedupe window, so a sampled-out error can still be reported on a repeat
+  if (error.fingerprint) reportDeduplicator.markAllowed(error.fingerprint, now);
+  
+  // Nothing leaves the browser, or reaches the persistent queue, unredacted
+  const event: MonitoringEvent = redact({
     error,
+    // Top-level so the monitoring backend can index and join it with server logs
+    requestId: error.requestId,
+    occurrences: stats,
+    // Similar events dropped by sampling or rate limiting since the last one sent
+    dropped: sampling.dropped,
+    sampleRate: sampling.sampleRate,
     context,
+    user,
+    tags,
+    extras,
+    flags,
+    release,
     environment: process.env.NODE_ENV,
     timestamp: new Date().toISOString(),
-    sessionId: 'simulated-session-id',
+    sessionId: getSessionId(),
     url: window.location.href,
-    userAgent: navigator.userAgent
+    userAgent: navigator.userAgent,
+    breadcrumbs: getBreadcrumbs()
   });
   
-  // Simulate successful logging
-  console.log('✅ Error successfully logged to monitoring service');
+  // Batched and sent to the monitoring endpoint; frames are resolved when the batch is sent
+  ErrorTransport.enqueue(event);
   
   // In development, output to console for visibility
   if (process.env.NODE_ENV !== 'production') {
+    console.log('[ERROR MONITORING]', event);
+    const sent = event.error as ErrorResponse;
     console.group('📊 Error details:');
-    console.log('Message:', error.message);
-    console.log('Category:', error.category);
-    console.log('Severity:', error.severity);
-    console.log('Code:', error.code);
-    if (error.stack) console.log('Stack:', error.stack);
+    console.log('Message:', sent.message);
+    console.log('Category:', sent.category);
+    console.log('Severity:', sent.severity);
+    console.log('Code:', sent.code);
+    if (sent.stack) console.log('Stack:', sent.stack);
     console.groupEnd();
   }
 };
@@ -50,12 +124,8 @@ export const logUserActivity = (
   action: string,
   data: Record<string, any> = {}
 ): void => {
-  // In a real app, this would track user actions for error context
-  console.log('[USER ACTIVITY]', {
-    action,
-    data,
-    timestamp: new Date().toISOString()
-  });
+  // Tracked as a breadcrumb so it shows up on the next reported error
+  recordBreadcrumb(action, 'user-activity', 'info', data);
 };
 
 /**
@@ -64,28 +134,18 @@ export const logUserActivity = (
 export const addBreadcrumb = (
   message: string,
   category = 'user',
-  level = 'info'
+  level: BreadcrumbLevel = 'info'
 ): void => {
-  // In a real app, this would add breadcrumbs to error reporting
-  console.log('[BREADCRUMB]', {
-    message,
-    category,
-    level,
-    timestamp: new Date().toISOString()
-  });
+  recordBreadcrumb(message, category, level);
 };
 
 /**
  * Set user context for error reporting
+ * Call without a user ID on logout to clear it
  */
 export const setUserContext = (
   userId?: string,
   attributes: Record<string, any> = {}
 ): void => {
-  // In a real app, this would set user context for error reporting
-  console.log('[USER CONTEXT]', {
-    userId,
-    attributes,
-    timestamp: new Date().toISOString()
-  });
+  setUser(userId ? { ...attributes, id: userId } : null);
 };
\ No newline at end of file
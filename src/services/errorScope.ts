@@ -0,0 +1,175 @@
+import { FeatureFlagValue, ScopeData, UserContext } from '../types';
+import { createRequestId } from '../utils/correlation';
+
+/**
+ * Error reporting scope
+ * Holds the user, tags, extras, feature flags and release merged into every reported error.
+ * withScope forks the current scope for a callback so callers can add context
+ * without changing global state
+ */
+
+const SESSION_STORAGE_KEY = 'error-monitoring-session-id';
+
+/**
+ * Mutable scope; the global one lives for the page, forks live for a withScope callback
+ */
+export class Scope {
+  private data: ScopeData;
+
+  constructor(data: Partial<ScopeData> = {}) {
+    this.data = {
+      tags: {},
+      extras: {},
+      ...data
+    };
+  }
+
+  setUser(user: UserContext | null): this {
+    this.data.user = user ?? undefined;
+    return this;
+  }
+
+  setTag(key: string, value: string): this {
+    this.data.tags = { ...this.data.tags, [key]: value };
+    return this;
+  }
+
+  setTags(tags: Record<string, string>): this {
+    this.data.tags = { ...this.data.tags, ...tags };
+    return this;
+  }
+
+  setExtra(key: string, value: unknown): this {
+    this.data.extras = { ...this.data.extras, [key]: value };
+    return this;
+  }
+
+  setExtras(extras: Record<string, unknown>): this {
+    this.data.extras = { ...this.data.extras, ...extras };
+    return this;
+  }
+
+  setFlags(flags: Record<string, FeatureFlagValue>): this {
+    this.data.flags = { ...this.data.flags, ...flags };
+    return this;
+  }
+
+  setRelease(release: string | undefined): this {
+    this.data.release = release;
+    return this;
+  }
+
+  /**
+   * Merge partial scope data, e.g. from an ErrorScope provider
+   */
+  apply(data: Partial<ScopeData> | undefined): this {
+    if (!data) return this;
+
+    if (data.user) this.setUser(data.user);
+    if (data.tags) this.setTags(data.tags);
+    if (data.extras) this.setExtras(data.extras);
+    if (data.flags) this.setFlags(data.flags);
+    if (data.release) this.setRelease(data.release);
+    return this;
+  }
+
+  clone(): Scope {
+    return new Scope(this.getData());
+  }
+
+  getData(): ScopeData {
+    return {
+      ...this.data,
+      tags: { ...this.data.tags },
+      extras: { ...this.data.extras },
+      flags: this.data.flags && { ...this.data.flags }
+    };
+  }
+}
+
+const globalScope = new Scope();
+const scopeStack: Scope[] = [globalScope];
+
+type UserListener = (user: UserContext | null) => void;
+
+const userListeners = new Set<UserListener>();
+
+/**
+ * Get the scope errors are currently reported with
+ */
+export const getCurrentScope = (): Scope => scopeStack[scopeStack.length - 1];
+
+/**
+ * Run a callback with a fork of the current scope
+ * Changes made to the fork apply to errors reported synchronously inside the callback only
+ */
+export const withScope = <T>(callback: (scope: Scope) => T): T => {
+  const scope = getCurrentScope().clone();
+  scopeStack.push(scope);
+
+  try {
+    return callback(scope);
+  } finally {
+    scopeStack.pop();
+  }
+};
+
+/**
+ * Set the user on the global scope; pass null on logout
+ */
+export const setUser = (user: UserContext | null): void => {
+  globalScope.setUser(user);
+  userListeners.forEach(listener => listener(user));
+};
+
+/**
+ * Subscribe to changes of the global scope's user, returning an unsubscribe function
+ */
+export const onUserChange = (listener: UserListener): (() => void) => {
+  userListeners.add(listener);
+  return () => {
+    userListeners.delete(listener);
+  };
+};
+
+/**
+ * Set a tag on the global scope
+ */
+export const setTag = (key: string, value: string): void => {
+  globalScope.setTag(key, value);
+};
+
+/**
+ * Set extra data on the global scope
+ */
+export const setExtra = (key: string, value: unknown): void => {
+  globalScope.setExtra(key, value);
+};
+
+/**
+ * Set the release/version on the global scope
+ */
+export const setRelease = (release: string | undefined): void => {
+  globalScope.setRelease(release);
+};
+
+let memorySessionId: string | undefined;
+
+/**
+ * Get the ID of this tab's session, created on first use
+ * sessionStorage keeps it across reloads of the same tab but not across tabs
+ */
+export const getSessionId = (): string => {
+  try {
+    let sessionId = window.sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!sessionId) {
+      sessionId = createRequestId();
+      window.sessionStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+    }
+    return sessionId;
+  } catch {
+    // Storage unavailable (e.g. private mode); keep one ID for this page load
+    memorySessionId ??= createRequestId();
+    return memorySessionId;
+  }
+};
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import ErrorTransport, { MonitoringEvent } from './errorTransport';
+
+const readEvents = async (body: Blob | string): Promise<MonitoringEvent[]> => {
+  return JSON.parse(typeof body === 'string' ? body : await body.text()).events;
+};
+
+describe('ErrorTransport', () => {
+  const sendBeacon = vi.fn<(url: string, body: Blob) => boolean>(() => true);
+  const fetch = vi.fn<(url: string, init: RequestInit) => Promise<Response>>(
+    () => Promise.resolve(new Response(null))
+  );
+
+  beforeEach(() => {
+    vi.stubGlobal('navigator', { sendBeacon });
+    vi.stubGlobal('fetch', fetch);
+  });
+
+  afterEach(() => {
+    ErrorTransport.configure({ endpoint: undefined, prepare: undefined });
+    sendBeacon.mockClear();
+    fetch.mockClear();
+    vi.unstubAllGlobals();
+  });
+
+  it('prepares events right before they are POSTed', async () => {
+    ErrorTransport.configure({
+      endpoint: '/api/errors',
+      prepare: async (event) => ({ ...event, prepared: true })
+    });
+
+    ErrorTransport.enqueue({ message: 'Checkout failed' });
+    await ErrorTransport.flush();
+
+    expect(await readEvents(fetch.mock.calls[0][1].body as string))
+      .toEqual([{ message: 'Checkout failed', prepared: true }]);
+  });
+
+  it('sends events still being prepared by beacon when the page hides', async () => {
+    ErrorTransport.configure({
+      endpoint: '/api/errors',
+      // e.g. symbolication waiting on a source map
+      prepare: () => new Promise<MonitoringEvent>(() => undefined)
+    });
+
+    ErrorTransport.enqueue({ message: 'Checkout failed' });
+    ErrorTransport.flushWithBeacon();
+
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+    expect(await readEvents(sendBeacon.mock.calls[0][1])).toEqual([{ message: 'Checkout failed' }]);
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Transport layer for the error monitoring service
+ * Batches events, sends them to an HTTP endpoint and keeps failed batches
+ * in a persistent queue that is retried later and flushed on page hide
+ */
+
+/**
+ * A single event sent to the monitoring endpoint
+ */
+export interface MonitoringEvent {
+  [key: string]: unknown;
+}
+
+/**
+ * Transport configuration
+ */
+export interface TransportConfig {
+  // Endpoint receiving POSTed batches; events are only logged locally when unset
+  endpoint?: string;
+  // Send as soon as this many events are buffered
+  batchSize: number;
+  // Send buffered events at least this often
+  flushIntervalMs: number;
+  // Cap on events kept in the persistent queue; oldest are dropped first
+  maxQueueSize: number;
+  // localStorage key holding events that could not be delivered
+  storageKey: string;
+  headers?: Record<string, string>;
+  // Completes an event (e.g. resolves its stack frames) right before it is POSTed;
+  // events are queued and sent by beacon as they were enqueued
+  prepare?: (event: MonitoringEvent) => Promise<MonitoringEvent>;
+}
+
+const DEFAULT_CONFIG: TransportConfig = {
+  batchSize: 10,
+  flushIntervalMs: 5000,
+  maxQueueSize: 200,
+  storageKey: 'error-monitoring-queue'
+};
+
+// sendBeacon payloads are limited to roughly 64KB by browsers
+const MAX_BEACON_BYTES = 60000;
+
+const encoder = new TextEncoder();
+
+const getByteSize = (value: unknown): number => encoder.encode(JSON.stringify(value)).length;
+
+/**
+ * Shrink an event too large for a beacon by dropping its bulkiest details
+ * Returns null when it still doesn't fit; it would otherwise be re-queued forever
+ */
+const fitEvent = (event: MonitoringEvent): MonitoringEvent | null => {
+  if (getByteSize(event) <= MAX_BEACON_BYTES) return event;
+
+  const error = typeof event.error === 'object' && event.error !== null
+    ? { ...event.error, stack: undefined, causes: undefined, frames: undefined, data: undefined }
+    : event.error;
+  const truncated: MonitoringEvent = {
+    ...event,
+    error,
+    context: undefined,
+    extras: undefined,
+    breadcrumbs: undefined,
+    truncated: true
+  };
+
+  return getByteSize(truncated) <= MAX_BEACON_BYTES ? truncated : null;
+};
+
+/**
+ * Queue of undelivered events that survives reloads
+ * Falls back to memory when localStorage is unavailable (e.g. private mode)
+ */
+class PersistentQueue {
+  private memory: MonitoringEvent[] = [];
+
+  constructor(private getConfig: () => TransportConfig, private keySuffix = '') {}
+
+  read(): MonitoringEvent[] {
+    try {
+      const stored = window.localStorage.getItem(this.getStorageKey());
+      const events: unknown = stored ? JSON.parse(stored) : [];
+
+      // Anything else in the key (older formats, manual edits) is discarded
+      return Array.isArray(events) ? events : [];
+    } catch {
+      return [...this.memory];
+    }
+  }
+
+  write(events: MonitoringEvent[]): void {
+    const storageKey = this.getStorageKey();
+    const trimmed = events.slice(-this.getConfig().maxQueueSize);
+
+    try {
+      if (trimmed.length === 0) {
+        window.localStorage.removeItem(storageKey);
+      } else {
+        window.localStorage.setItem(storageKey, JSON.stringify(trimmed));
+      }
+    } catch {
+      this.memory = trimmed;
+    }
+  }
+
+  append(events: MonitoringEvent[]): void {
+    this.write([...this.read(), ...events]);
+  }
+
+  take(): MonitoringEvent[] {
+    const events = this.read();
+    this.write([]);
+    return events;
+  }
+
+  private getStorageKey(): string {
+    return this.getConfig().storageKey + this.keySuffix;
+  }
+}
+
+/**
+ * ErrorTransport: Batching HTTP transport for monitoring events
+ */
+class ErrorTransport {
+  private config: TransportConfig = { ...DEFAULT_CONFIG };
+  private buffer: MonitoringEvent[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private sending = false;
+  private queue = new PersistentQueue(() => this.config);
+  // The batch being sent, kept until its request settles so a page closed mid-send retries it
+  private inflight = new PersistentQueue(() => this.config, ':inflight');
+
+  /**
+   * Update the transport configuration
+   */
+  configure(config: Partial<TransportConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Get the current transport configuration
+   */
+  getConfig(): TransportConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Add an event to the current batch
+   */
+  enqueue(event: MonitoringEvent): void {
+    if (!this.config.endpoint) return;
+
+    const fitted = fitEvent(event);
+    if (!fitted) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn('[ERROR MONITORING] Event too large to send, dropped:', event);
+      }
+      return;
+    }
+
+    this.buffer.push(fitted);
+
+    if (this.buffer.length >= this.config.batchSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.config.flushIntervalMs);
+    }
+  }
+
+  /**
+   * Send buffered events together with anything left in the persistent queue
+   */
+  async flush(): Promise<void> {
+    this.clearTimer();
+
+    const { endpoint, headers } = this.config;
+    if (!endpoint || this.sending) return;
+
+    const events = [...this.queue.take(), ...this.buffer];
+    this.buffer = [];
+    if (events.length === 0) return;
+
+    this.sending = true;
+    this.inflight.write(events);
+    // Re-queued as prepared, so a failed delivery isn't prepared again
+    let batch = events;
+    try {
+      batch = await this.prepareEvents(events);
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({ events: batch })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Monitoring endpoint responded with ${response.status}`);
+      }
+    } catch (error) {
+      // Keep the batch for the next flush or page hide
+      this.queue.append(batch);
+
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn('[ERROR MONITORING] Delivery failed, queued for later:', error);
+      }
+    } finally {
+      this.sending = false;
+      this.inflight.write([]);
+
+      // Events that arrived mid-flight go out with the next batch
+      if (this.buffer.length > 0 && !this.timer) {
+        this.timer = setTimeout(() => void this.flush(), this.config.flushIntervalMs);
+      }
+    }
+  }
+
+  /**
+   * Flush everything with navigator.sendBeacon, which survives page unload
+   * A batch already in flight is left to its request: it is re-queued if that fails,
+   * or recovered from storage on the next load if the page closes first
+   */
+  flushWithBeacon(): void {
+    this.clearTimer();
+
+    const { endpoint } = this.config;
+    if (!endpoint) return;
+
+    // Events queued by older versions may still be too large
+    const events = [...this.queue.take(), ...this.buffer]
+      .map(fitEvent)
+      .filter((event): event is MonitoringEvent => event !== null);
+    this.buffer = [];
+    if (events.length === 0) return;
+
+    if (typeof navigator.sendBeacon !== 'function') {
+      this.queue.append(events);
+      return;
+    }
+
+    const undelivered: MonitoringEvent[] = [];
+    this.chunkForBeacon(events).forEach(chunk => {
+      const body = new Blob([JSON.stringify({ events: chunk })], { type: 'application/json' });
+      if (!navigator.sendBeacon(endpoint, body)) {
+        undelivered.push(...chunk);
+      }
+    });
+
+    if (undelivered.length > 0) {
+      this.queue.append(undelivered);
+    }
+  }
+
+  /**
+   * Install page lifecycle listeners, returning a function that removes them
+   */
+  install(): () => void {
+    const handlePageHide = () => this.flushWithBeacon();
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') this.flushWithBeacon();
+    };
+    const handleOnline = () => void this.flush();
+
+    window.addEventListener('pagehide', handlePageHide);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('online', handleOnline);
+
+    // Deliver anything left over from a previous page load, including a batch it was sending
+    this.queue.append(this.inflight.take());
+    void this.flush();
+
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('online', handleOnline);
+    };
+  }
+
+  /**
+   * Run the prepare step over a batch; an event it fails on is sent as it is
+   */
+  private async prepareEvents(events: MonitoringEvent[]): Promise<MonitoringEvent[]> {
+    const { prepare } = this.config;
+    if (!prepare) return events;
+
+    const prepared = await Promise.all(events.map(event => prepare(event).catch(() => event)));
+    return prepared
+      .map(fitEvent)
+      .filter((event): event is MonitoringEvent => event !== null);
+  }
+
+  /**
+   * Split events into chunks that fit in a single beacon payload
+   */
+  private chunkForBeacon(events: MonitoringEvent[]): MonitoringEvent[][] {
+    const chunks: MonitoringEvent[][] = [];
+    let current: MonitoringEvent[] = [];
+    let size = 0;
+
+    events.forEach(event => {
+      const eventSize = getByteSize(event);
+      if (current.length > 0 && size + eventSize > MAX_BEACON_BYTES) {
+        chunks.push(current);
+        current = [];
+        size = 0;
+      }
+      current.push(event);
+      size += eventSize;
+    });
+
+    if (current.length > 0) chunks.push(current);
+    return chunks;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+// Export as singleton so all reporting shares one batch and queue
+export default new ErrorTransport();
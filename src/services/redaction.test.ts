@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { addRedactionRule, redact, redactString } from './redaction';
+
+describe('redactString', () => {
+  it('redacts emails, JWTs and Luhn-valid card numbers', () => {
+    expect(redactString('Contact jane.doe@example.com')).toBe('Contact [REDACTED_EMAIL]');
+    expect(redactString('Bearer eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.sig')).toBe('Bearer [REDACTED_JWT]');
+    expect(redactString('Card 4111 1111 1111 1111 declined')).toBe('Card [REDACTED_CARD] declined');
+  });
+
+  it('leaves long digit runs that are not card numbers', () => {
+    expect(redactString('Started at 1700000000000')).toBe('Started at 1700000000000');
+  });
+
+  it('redacts sensitive query parameters', () => {
+    expect(redactString('https://api.example.com/cb?code=abc&state=xyz&token=t1'))
+      .toBe('https://api.example.com/cb?code=[REDACTED]&state=xyz&token=[REDACTED]');
+  });
+});
+
+describe('redact', () => {
+  it('replaces values under sensitive keys at any depth without mutating the input', () => {
+    const event = {
+      context: { headers: { Authorization: 'Bearer abc', Accept: 'application/json' } },
+      user: { id: 'u1', email: 'jane@example.com' },
+      breadcrumbs: [{ data: { password: 'hunter2' } }]
+    };
+
+    expect(redact(event)).toEqual({
+      context: { headers: { Authorization: '[REDACTED]', Accept: 'application/json' } },
+      user: { id: 'u1', email: '[REDACTED]' },
+      breadcrumbs: [{ data: { password: '[REDACTED]' } }]
+    });
+    expect(event.user.email).toBe('jane@example.com');
+  });
+
+  it('handles circular references', () => {
+    const value: Record<string, unknown> = { name: 'loop' };
+    value.self = value;
+
+    expect(redact(value)).toEqual({ name: 'loop', self: '[Truncated]' });
+  });
+
+  it('applies project-specific rules until they are removed', () => {
+    const remove = addRedactionRule({ id: 'ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/g, replacement: '[SSN]' });
+
+    expect(redactString('SSN 123-45-6789')).toBe('SSN [SSN]');
+
+    remove();
+    expect(redactString('SSN 123-45-6789')).toBe('SSN 123-45-6789');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * PII redaction pipeline
+ * Scrubs monitoring events before they leave the browser: values under sensitive
+ * keys, sensitive patterns inside strings (card numbers, JWTs, emails) and
+ * sensitive URL query parameters. Applies to every part of the event, including
+ * breadcrumbs, context and stack traces
+ */
+
+/**
+ * A redaction rule
+ * - `key` replaces the whole value of matching object keys
+ * - `pattern` replaces matches inside every string (use the g flag)
+ * - `test` additionally validates a pattern match before replacing it
+ */
+export interface RedactionRule {
+  id: string;
+  key?: string | RegExp;
+  pattern?: RegExp;
+  test?: (match: string) => boolean;
+  replacement?: string;
+}
+
+/**
+ * Redaction configuration
+ */
+export interface RedactionConfig {
+  // Query parameters whose values are replaced in any URL-like string
+  queryParams: string[];
+  replacement: string;
+}
+
+const MAX_DEPTH = 20;
+
+const DEFAULT_CONFIG: RedactionConfig = {
+  queryParams: [
+    'token', 'access_token', 'id_token', 'refresh_token', 'code', 'password',
+    'email', 'key', 'api_key', 'apikey', 'secret', 'signature', 'sig', 'auth'
+  ],
+  replacement: '[REDACTED]'
+};
+
+/**
+ * Luhn checksum, used to tell card numbers from other long digit runs (e.g. timestamps)
+ */
+const passesLuhn = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+};
+
+const DEFAULT_RULES: RedactionRule[] = [
+  { id: 'key:password', key: /pass(word|wd)|^pass$/i },
+  { id: 'key:secret', key: /secret/i },
+  { id: 'key:token', key: /token/i },
+  { id: 'key:authorization', key: /^(authorization|proxy-authorization|cookie|set-cookie)$/i },
+  { id: 'key:api-key', key: /^api[-_]?key$/i },
+  { id: 'key:email', key: /e-?mail/i },
+  {
+    id: 'pattern:jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+    replacement: '[REDACTED_JWT]'
+  },
+  {
+    id: 'pattern:email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+    replacement: '[REDACTED_EMAIL]'
+  },
+  {
+    id: 'pattern:card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    test: passesLuhn,
+    replacement: '[REDACTED_CARD]'
+  }
+];
+
+let config: RedactionConfig = { ...DEFAULT_CONFIG };
+let rules: RedactionRule[] = [...DEFAULT_RULES];
+
+/**
+ * Update the redaction configuration
+ */
+export const configureRedaction = (options: Partial<RedactionConfig>): void => {
+  config = { ...config, ...options };
+};
+
+/**
+ * Add a project-specific rule, replacing any rule with the same id
+ */
+export const addRedactionRule = (rule: RedactionRule): (() => void) => {
+  removeRedactionRule(rule.id);
+  rules.push(rule);
+  return () => removeRedactionRule(rule.id);
+};
+
+/**
+ * Remove a rule by id, including built-in rules
+ */
+export const removeRedactionRule = (id: string): void => {
+  rules = rules.filter(rule => rule.id !== id);
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isSensitiveKey = (key: string): RedactionRule | undefined => {
+  return rules.find(rule =>
+    rule.key !== undefined &&
+    (typeof rule.key === 'string' ? rule.key.toLowerCase() === key.toLowerCase() : rule.key.test(key))
+  );
+};
+
+/**
+ * Redact sensitive patterns and query parameters inside a string
+ */
+export const redactString = (value: string): string => {
+  let result = value;
+
+  rules.forEach(rule => {
+    if (!rule.pattern) return;
+
+    result = result.replace(rule.pattern, (match) =>
+      !rule.test || rule.test(match) ? rule.replacement ?? config.replacement : match
+    );
+  });
+
+  if (config.queryParams.length > 0 && /[?&]/.test(result)) {
+    const names = config.queryParams.map(escapeRegExp).join('|');
+    result = result.replace(
+      new RegExp(`([?&](?:${names})=)[^&#\\s"']*`, 'gi'),
+      (_match, prefix: string) => `${prefix}${config.replacement}`
+    );
+  }
+
+  return result;
+};
+
+const redactValue = (value: unknown, depth: number, seen: WeakSet<object>): unknown => {
+  if (typeof value === 'string') return redactString(value);
+  if (!value || typeof value !== 'object') return value;
+  if (depth > MAX_DEPTH || seen.has(value)) return '[Truncated]';
+
+  seen.add(value);
+
+  const result = Array.isArray(value)
+    ? value.map(item => redactValue(item, depth + 1, seen))
+    : Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => {
+          const rule = isSensitiveKey(key);
+          if (rule && entry !== undefined && entry !== null && entry !== '') {
+            return [key, rule.replacement ?? config.replacement];
+          }
+          return [key, redactValue(entry, depth + 1, seen)];
+        })
+      );
+
+  seen.delete(value);
+  return result;
+};
+
+/**
+ * Return a redacted deep copy of any value, e.g. a monitoring event
+ */
+export const redact = <T>(value: T): T => {
+  return redactValue(value, 0, new WeakSet()) as T;
+};
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ErrorCategory, ErrorResponse, ErrorSeverity } from '../types';
+import { configureSampling, getSampleRate, resetSampling, sampleReport } from './reportSampling';
+
+const DEFAULTS = {
+  severityRates: { [ErrorSeverity.LOW]: 1, [ErrorSeverity.MEDIUM]: 1 },
+  categoryRates: {},
+  perFingerprint: { capacity: 5, refillPerSecond: 0.1 },
+  global: { capacity: 30, refillPerSecond: 1 }
+};
+
+const createError = (overrides: Partial<ErrorResponse> = {}): ErrorResponse => ({
+  message: 'Request failed',
+  severity: ErrorSeverity.MEDIUM,
+  category: ErrorCategory.NETWORK,
+  timestamp: new Date(0).toISOString(),
+  fingerprint: 'fp',
+  ...overrides
+});
+
+describe('reportSampling', () => {
+  afterEach(() => {
+    configureSampling(DEFAULTS);
+    vi.restoreAllMocks();
+  });
+
+  it('keeps every event by default', () => {
+    resetSampling();
+
+    expect(getSampleRate(createError({ severity: ErrorSeverity.LOW }))).toBe(1);
+    expect(sampleReport(createError(), 0)).toEqual({ sampled: true, dropped: 0, sampleRate: 1 });
+  });
+
+  it('multiplies severity and category rates', () => {
+    configureSampling({
+      severityRates: { [ErrorSeverity.MEDIUM]: 0.5 },
+      categoryRates: { [ErrorCategory.NETWORK]: 0.5 }
+    });
+
+    expect(getSampleRate(createError())).toBe(0.25);
+    expect(getSampleRate(createError({ severity: ErrorSeverity.CRITICAL }))).toBe(1);
+  });
+
+  it('counts dropped events on the next event that is sent', () => {
+    configureSampling({ severityRates: { [ErrorSeverity.MEDIUM]: 0.5 } });
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0.9);
+
+    expect(sampleReport(createError(), 0).sampled).toBe(false);
+    expect(sampleReport(createError(), 0).sampled).toBe(false);
+
+    random.mockReturnValue(0.1);
+    expect(sampleReport(createError(), 0)).toEqual({ sampled: true, dropped: 2, sampleRate: 0.5 });
+  });
+
+  it('rate limits per fingerprint and refills over time', () => {
+    configureSampling({ perFingerprint: { capacity: 2, refillPerSecond: 1 } });
+
+    expect(sampleReport(createError(), 0).sampled).toBe(true);
+    expect(sampleReport(createError(), 0).sampled).toBe(true);
+    expect(sampleReport(createError(), 0).sampled).toBe(false);
+    expect(sampleReport(createError({ fingerprint: 'other' }), 0).sampled).toBe(true);
+
+    expect(sampleReport(createError(), 1000)).toMatchObject({ sampled: true, dropped: 1 });
+  });
+
+  it('lets critical errors bypass rate limits', () => {
+    configureSampling({ global: { capacity: 1, refillPerSecond: 0 } });
+
+    sampleReport(createError(), 0);
+    expect(sampleReport(createError({ fingerprint: 'other' }), 0).sampled).toBe(false);
+    expect(sampleReport(createError({ severity: ErrorSeverity.CRITICAL }), 0).sampled).toBe(true);
+  });
+});
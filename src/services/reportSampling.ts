@@ -0,0 +1,159 @@
+import { ErrorCategory, ErrorResponse, ErrorSeverity } from '../types';
+import { TokenBucket } from '../utils/tokenBucket';
+
+/**
+ * Report sampling and rate limiting
+ * Caps the volume of events sent to monitoring: errors are sampled by severity
+ * and category, then rate limited per fingerprint and globally with token buckets.
+ * CRITICAL errors always go through. Dropped events are counted per fingerprint
+ * and reported on the next event that is sent, so dashboards still show the real volume
+ */
+
+/**
+ * Token bucket settings
+ */
+export interface RateLimitOptions {
+  // Burst size
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/**
+ * Sampling configuration
+ * A severity's and a category's rates multiply; missing entries default to 1
+ */
+export interface SamplingConfig {
+  severityRates: Partial<Record<ErrorSeverity, number>>;
+  categoryRates: Partial<Record<ErrorCategory, number>>;
+  // Limit per fingerprint, or false to disable
+  perFingerprint: RateLimitOptions | false;
+  // Limit across all events, or false to disable
+  global: RateLimitOptions | false;
+  // Cap on tracked fingerprints; least recently seen are forgotten first
+  maxTrackedFingerprints: number;
+}
+
+/**
+ * Outcome of a sampling decision
+ */
+export interface SamplingDecision {
+  sampled: boolean;
+  // Similar events dropped since the last one was sent (only set when sampled)
+  dropped: number;
+  // Rate applied to this event, so the backend can extrapolate
+  sampleRate: number;
+}
+
+const DEFAULT_CONFIG: SamplingConfig = {
+  // Every severity is kept until sampling is configured
+  severityRates: {
+    [ErrorSeverity.LOW]: 1,
+    [ErrorSeverity.MEDIUM]: 1
+  },
+  categoryRates: {},
+  perFingerprint: { capacity: 5, refillPerSecond: 0.1 },
+  global: { capacity: 30, refillPerSecond: 1 },
+  maxTrackedFingerprints: 200
+};
+
+interface FingerprintState {
+  bucket?: TokenBucket;
+  dropped: number;
+}
+
+let config: SamplingConfig = { ...DEFAULT_CONFIG };
+let globalBucket: TokenBucket | null = null;
+const fingerprints = new Map<string, FingerprintState>();
+
+/**
+ * Update the sampling configuration
+ * Rate limit state is reset so new limits apply immediately
+ */
+export const configureSampling = (options: Partial<SamplingConfig>): void => {
+  config = { ...config, ...options };
+  resetSampling();
+};
+
+/**
+ * Forget all rate limit state and dropped counters
+ */
+export const resetSampling = (): void => {
+  globalBucket = null;
+  fingerprints.clear();
+};
+
+const clampRate = (rate: number | undefined): number => {
+  return rate === undefined ? 1 : Math.min(1, Math.max(0, rate));
+};
+
+/**
+ * Key grouping similar events; errors without a fingerprint group by category and code
+ */
+const getGroupKey = (error: ErrorResponse): string => {
+  return error.fingerprint ?? `${error.category}|${error.code ?? ''}`;
+};
+
+const getState = (key: string): FingerprintState => {
+  const state = fingerprints.get(key) ?? { dropped: 0 };
+
+  // Re-insert so the map stays ordered by most recent use
+  fingerprints.delete(key);
+  fingerprints.set(key, state);
+
+  while (fingerprints.size > config.maxTrackedFingerprints) {
+    const oldest = fingerprints.keys().next().value;
+    if (oldest === undefined) break;
+    fingerprints.delete(oldest);
+  }
+
+  return state;
+};
+
+/**
+ * Get the sample rate that applies to an error
+ */
+export const getSampleRate = (error: ErrorResponse): number => {
+  if (error.severity === ErrorSeverity.CRITICAL) return 1;
+
+  return clampRate(config.severityRates[error.severity]) *
+    clampRate(config.categoryRates[error.category]);
+};
+
+/**
+ * Decide whether an error is sent to monitoring
+ * Every call counts: a dropped event increments its group's counter
+ */
+export const sampleReport = (error: ErrorResponse, now: number = Date.now()): SamplingDecision => {
+  const state = getState(getGroupKey(error));
+  const sampleRate = getSampleRate(error);
+
+  const pass = (): SamplingDecision => {
+    const dropped = state.dropped;
+    state.dropped = 0;
+    return { sampled: true, dropped, sampleRate };
+  };
+
+  const drop = (): SamplingDecision => {
+    state.dropped++;
+    return { sampled: false, dropped: 0, sampleRate };
+  };
+
+  // Critical errors bypass sampling and rate limits alike
+  if (error.severity === ErrorSeverity.CRITICAL) return pass();
+
+  if (sampleRate < 1 && Math.random() >= sampleRate) return drop();
+
+  if (config.perFingerprint) {
+    const { capacity, refillPerSecond } = config.perFingerprint;
+    state.bucket ??= new TokenBucket(capacity, refillPerSecond, now);
+    if (!state.bucket.tryTake(now)) return drop();
+  }
+
+  if (config.global) {
+    const { capacity, refillPerSecond } = config.global;
+    globalBucket ??= new TokenBucket(capacity, refillPerSecond, now);
+    if (!globalBucket.tryTake(now)) return drop();
+  }
+
+  return pass();
+};
@@ -0,0 +1,35 @@
+import { SessionExpiredError } from '../errors/classes';
+
+/**
+ * Session lifecycle events
+ * Emitted when the session can no longer be recovered so the app can send the
+ * user to login. Listeners can subscribe here or listen for the "sessionExpired"
+ * DOM event on window
+ */
+
+export const SESSION_EXPIRED_EVENT = 'sessionExpired';
+
+type SessionExpiredListener = (error: SessionExpiredError) => void;
+
+const listeners = new Set<SessionExpiredListener>();
+
+/**
+ * Subscribe to session expiry, returning an unsubscribe function
+ */
+export const onSessionExpired = (listener: SessionExpiredListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Notify listeners that the session has expired
+ */
+export const emitSessionExpired = (error: SessionExpiredError): void => {
+  listeners.forEach(listener => listener(error));
+
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent<SessionExpiredError>(SESSION_EXPIRED_EVENT, { detail: error }));
+  }
+};
@@ -0,0 +1,142 @@
+import { StackFrame } from '../types';
+import { RawSourceMap, SourceMapConsumer } from '../utils/sourceMap';
+
+/**
+ * Stack trace symbolication
+ * An optional step that resolves minified frames to original source before
+ * reports are sent. Any resolver can be plugged in; createSourceMapSymbolicator
+ * resolves against Vite-generated source maps, fetched from the server or
+ * supplied at build time. Frames that can't be resolved are sent as they are
+ */
+
+/**
+ * Resolves parsed frames, returning them in the same order
+ */
+export type Symbolicator = (frames: StackFrame[]) => Promise<StackFrame[]>;
+
+/**
+ * Source map symbolicator configuration
+ */
+export interface SourceMapSymbolicatorOptions {
+  // Maps supplied at build time, keyed by generated file URL or path (e.g. "/assets/index-abc.js")
+  sourceMaps?: Record<string, RawSourceMap>;
+  // Where the maps were uploaded, e.g. "https://maps.internal.example.com/app/"; a same-origin
+  // "/assets/index-abc.js" resolves to "<sourceMapBaseUrl>assets/index-abc.js.map" (default: the page's origin)
+  sourceMapBaseUrl?: string;
+  // URL of the map for a generated file, or undefined to skip it; overrides sourceMapBaseUrl
+  getSourceMapUrl?: (file: string) => string | undefined;
+  fetchTimeoutMs?: number;
+}
+
+let symbolicator: Symbolicator | null = null;
+
+/**
+ * Install the symbolication step used for monitoring reports, or null to remove it
+ */
+export const setSymbolicator = (value: Symbolicator | null): void => {
+  symbolicator = value;
+};
+
+export const hasSymbolicator = (): boolean => symbolicator !== null;
+
+/**
+ * Symbolicate frames with the installed symbolicator
+ * Never rejects: on failure the frames are returned unchanged
+ */
+export const symbolicateFrames = async (frames: StackFrame[]): Promise<StackFrame[]> => {
+  if (!symbolicator || frames.length === 0) return frames;
+
+  try {
+    return await symbolicator(frames);
+  } catch {
+    return frames;
+  }
+};
+
+const stripQuery = (file: string): string => file.replace(/[?#].*$/, '');
+
+const getMapUrlFromBase = (file: string, baseUrl: string): string | undefined => {
+  try {
+    const url = new URL(file, window.location.href);
+    if (url.origin !== window.location.origin || !/\.m?js$/.test(url.pathname)) return undefined;
+    return new URL(`${url.pathname.replace(/^\//, '')}.map`, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Create a symbolicator resolving frames against source maps
+ * Build with VITE_SYMBOLICATE_STACKS=true so Vite emits the maps, then upload them to sourceMapBaseUrl
+ */
+export const createSourceMapSymbolicator = (
+  options: SourceMapSymbolicatorOptions = {}
+): Symbolicator => {
+  const {
+    sourceMaps = {},
+    sourceMapBaseUrl = `${window.location.origin}/`,
+    getSourceMapUrl = (file: string) => getMapUrlFromBase(file, sourceMapBaseUrl),
+    fetchTimeoutMs = 5000
+  } = options;
+
+  // Keyed by map URL or build-time key; failed lookups are cached as null
+  const consumers = new Map<string, Promise<SourceMapConsumer | null>>();
+
+  const fetchSourceMap = async (url: string): Promise<SourceMapConsumer | null> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), fetchTimeoutMs);
+
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) return null;
+      return new SourceMapConsumer(await response.json());
+    } catch {
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const getConsumer = (file: string): Promise<SourceMapConsumer | null> => {
+    const path = stripQuery(file);
+    const supplied = sourceMaps[path] ?? sourceMaps[path.replace(/^[a-z]+:\/\/[^/]*/i, '')];
+    const key = supplied ? `supplied:${path}` : getSourceMapUrl(path);
+    if (!key) return Promise.resolve(null);
+
+    let consumer = consumers.get(key);
+    if (!consumer) {
+      consumer = supplied
+        ? Promise.resolve().then(() => new SourceMapConsumer(supplied)).catch(() => null)
+        : fetchSourceMap(key);
+      consumers.set(key, consumer);
+    }
+
+    return consumer;
+  };
+
+  return async (frames) => {
+    const positions = await Promise.all(frames.map(async (frame) => {
+      if (frame.line === undefined || frame.column === undefined) return undefined;
+
+      const consumer = await getConsumer(frame.file);
+      return consumer?.originalPositionFor(frame.line, frame.column);
+    }));
+
+    return frames.map((frame, index) => {
+      const position = positions[index];
+      if (!position) return frame;
+
+      // A mapped name is the identifier at the call site, i.e. the name of the function
+      // called there, so a frame's original name comes from the frame that called it
+      const callerPosition = positions[index + 1];
+
+      return {
+        function: callerPosition?.name ?? frame.function,
+        file: position.source,
+        line: position.line,
+        column: position.column,
+        symbolicated: true
+      };
+    });
+  };
+};
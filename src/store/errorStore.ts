@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { ErrorResponse } from '../types';
+import { CircuitBreakerSnapshot, ErrorResponse } from '../types';
 
 /**
  * Interface for the global error state
@@ -14,6 +14,9 @@ interface ErrorState {
   // Error visibility state
   isErrorVisible: boolean;
   
+  // Circuit breaker state per endpoint group
+  circuitBreakers: Record<string, CircuitBreakerSnapshot>;
+  
   // Actions
   setError: (error: ErrorResponse | null) => void;
   clearError: () => void;
@@ -21,6 +24,8 @@ interface ErrorState {
   hideError: () => void;
   addToHistory: (error: ErrorResponse) => void;
   clearHistory: () => void;
+  setCircuitBreaker: (snapshot: CircuitBreakerSnapshot) => void;
+  removeCircuitBreaker: (key: string) => void;
 }
 
 /**
@@ -32,15 +37,20 @@ const useErrorStore = create<ErrorState>((set, get) => ({
   currentError: null,
   errorHistory: [],
   isErrorVisible: false,
+  circuitBreakers: {},
   
   // Set the current error
   setError: (error) => {
-    set({ currentError: error, isErrorVisible: Boolean(error) });
-    
-    // Add to history if it's a new error
+    // Add to history first so the current error carries its occurrence count
     if (error) {
       get().addToHistory(error);
     }
+    
+    const tracked = error?.fingerprint
+      ? get().errorHistory.find(entry => entry.fingerprint === error.fingerprint) ?? error
+      : error;
+    
+    set({ currentError: tracked, isErrorVisible: Boolean(error) });
   },
   
   // Clear the current error
@@ -58,16 +68,49 @@ const useErrorStore = create<ErrorState>((set, get) => ({
     set({ isErrorVisible: false });
   },
   
-  // Add an error to history
+  // Add an error to history, merging repeats of the same fingerprint
   addToHistory: (error) => {
-    set((state) => ({
-      errorHistory: [error, ...state.errorHistory].slice(0, 10) // Keep last 10 errors
-    }));
+    set((state) => {
+      const seenAt = error.timestamp || new Date().toISOString();
+      const previous = error.fingerprint
+        ? state.errorHistory.find(entry => entry.fingerprint === error.fingerprint)
+        : undefined;
+      
+      const entry: ErrorResponse = {
+        ...error,
+        occurrences: previous ? (previous.occurrences ?? 1) + 1 : 1,
+        firstSeen: previous?.firstSeen ?? seenAt,
+        lastSeen: seenAt
+      };
+      
+      return {
+        errorHistory: [
+          entry, 
+          ...state.errorHistory.filter(item => item !== previous)
+        ].slice(0, 10) // Keep last 10 errors
+      };
+    });
   },
   
   // Clear error history
   clearHistory: () => {
     set({ errorHistory: [] });
+  },
+  
+  // Publish the state of a circuit breaker
+  setCircuitBreaker: (snapshot) => {
+    set((state) => ({
+      circuitBreakers: { ...state.circuitBreakers, [snapshot.key]: snapshot }
+    }));
+  },
+  
+  // Forget a circuit breaker
+  removeCircuitBreaker: (key) => {
+    set((state) => {
+      const circuitBreakers = { ...state.circuitBreakers };
+      delete circuitBreakers[key];
+      return { circuitBreakers };
+    });
   }
 }));
 
@@ -0,0 +1,36 @@
+import { create } from 'zustand';
+import { FeatureFlagMap, UserContext } from '../types';
+
+/**
+ * Interface for the feature flag state
+ */
+interface FeatureFlagState {
+  // Resolved flag definitions from every source
+  flags: FeatureFlagMap;
+  
+  // User flags are evaluated for (the global scope's user)
+  user: UserContext | null;
+  
+  // Actions
+  setFlags: (flags: FeatureFlagMap) => void;
+  setUser: (user: UserContext | null) => void;
+}
+
+/**
+ * Subscribable store of feature flags, kept in sync by featureFlags.ts
+ * Components subscribe through useFeatureFlag so they re-render when flags change
+ */
+const useFeatureFlagStore = create<FeatureFlagState>((set) => ({
+  flags: {},
+  user: null,
+  
+  setFlags: (flags) => {
+    set({ flags });
+  },
+  
+  setUser: (user) => {
+    set({ user });
+  }
+}));
+
+export default useFeatureFlagStore;
@@ -30,7 +30,75 @@ export interface ErrorResponse {
   timestamp: string;
   data?: unknown;
   retry?: boolean;
+  retryAfter?: number;
+  problem?: ProblemDetails;
+  fingerprint?: string;
+  // Occurrence tracking for repeated errors with the same fingerprint
+  occurrences?: number;
+  firstSeen?: string;
+  lastSeen?: string;
+  // Correlation ID linking the error to backend logs
+  requestId?: string;
+  // Already sent to monitoring by the API client
+  reported?: boolean;
+  // Underlying errors, outermost first
+  causes?: ErrorCause[];
   stack?: string;
+  // Parsed stack frames, kept in every environment for monitoring
+  frames?: StackFrame[];
+  // Feature flags guarding the code that failed, with the values they served
+  flags?: Record<string, FeatureFlagValue>;
+}
+
+// A parsed stack frame; positions are 1-based
+export interface StackFrame {
+  function?: string;
+  file: string;
+  line?: number;
+  column?: number;
+  // Whether the frame was resolved to original source through a source map
+  symbolicated?: boolean;
+}
+
+// Serialized link in an error's cause chain
+export interface ErrorCause {
+  name: string;
+  message: string;
+  code?: string | number;
+  stack?: string;
+}
+
+// Constructor of an error class, e.g. to match errors with instanceof
+// Arguments are typed never so any constructor signature is accepted
+export type ErrorConstructor<T extends Error = Error> = abstract new (...args: never[]) => T;
+
+// RFC 9457 (formerly RFC 7807) problem details object
+export interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+}
+
+// Rate limit details advertised by the server in response headers
+export interface RateLimitInfo {
+  limit?: number;
+  remaining?: number;
+  resetAt?: string;
+}
+
+// Breadcrumb severity levels
+export type BreadcrumbLevel = 'debug' | 'info' | 'warning' | 'error';
+
+// A single step in the trail of events leading up to an error
+export interface Breadcrumb {
+  message: string;
+  category: string;
+  level: BreadcrumbLevel;
+  timestamp: string;
+  data?: Record<string, unknown>;
 }
 
 // User data structure
@@ -41,6 +109,24 @@ export interface User {
   role: string;
 }
 
+// User attached to reported errors
+export interface UserContext {
+  id?: string;
+  [key: string]: unknown;
+}
+
+// Context merged into every reported error
+export interface ScopeData {
+  user?: UserContext;
+  // Short indexed values, e.g. feature area
+  tags: Record<string, string>;
+  // Arbitrary additional data
+  extras: Record<string, unknown>;
+  // Feature flags evaluated for the code in scope, with the values they served
+  flags?: Record<string, FeatureFlagValue>;
+  release?: string;
+}
+
 // API Response wrapper
 export interface ApiResponse<T> {
   data?: T;
@@ -48,12 +134,128 @@ export interface ApiResponse<T> {
   status: number;
 }
 
+// Jitter strategies applied to retry backoff delays
+export type RetryJitter = 'none' | 'full' | 'equal';
+
+// Policy describing when and how a failed request is retried
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffFactor: number;
+  jitter: RetryJitter;
+  retryableCategories: ErrorCategory[];
+  retryableStatuses: number[];
+}
+
+// Circuit breaker states: closed lets requests through, open fails fast,
+// half-open lets a trial request through to probe recovery
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Thresholds controlling when a circuit breaker opens and recovers
+export interface CircuitBreakerOptions {
+  // Failures within failureWindowMs that open the circuit
+  failureThreshold: number;
+  failureWindowMs: number;
+  // How long the circuit stays open before allowing a trial request
+  coolDownMs: number;
+  // Trial requests allowed at once while half-open
+  halfOpenMaxRequests: number;
+}
+
+// Published state of one circuit breaker
+export interface CircuitBreakerSnapshot {
+  key: string;
+  state: CircuitState;
+  failures: number;
+  openedAt?: string;
+  // When an open circuit will allow a trial request
+  retryAt?: string;
+}
+
+// Value a feature flag can serve: a boolean switch, a string or number variant, or JSON
+export type FeatureFlagValue =
+  | boolean
+  | string
+  | number
+  | null
+  | FeatureFlagValue[]
+  | { [key: string]: FeatureFlagValue };
+
+// Schema of the known flags and the type of value each serves
+// Every flag here needs a default definition in features/featureFlags.ts
+export interface FeatureFlagSchema {
+  ENABLE_ERROR_STACK_TRACES: boolean;
+  USE_NEW_ERROR_HANDLING: boolean;
+  ENABLE_ERROR_BOUNDARIES: boolean;
+  ENABLE_AUTOMATIC_RETRY: boolean;
+  ENABLE_CIRCUIT_BREAKER: boolean;
+  ENABLE_DETAILED_VALIDATION_ERRORS: boolean;
+  ENABLE_ERROR_REPORTING: boolean;
+  BREADCRUMBS_CLICKS: boolean;
+  BREADCRUMBS_NAVIGATION: boolean;
+  BREADCRUMBS_CONSOLE: boolean;
+  BREADCRUMBS_HTTP: boolean;
+  BREADCRUMBS_ERROR_STORE: boolean;
+  RETRY_MAX_ATTEMPTS: number;
+  TOAST_DURATIONS_MS: Record<ErrorSeverity, number>;
+}
+
+// Name of a known feature flag
+export type FeatureFlagName = keyof FeatureFlagSchema;
+
 // Feature Flag definition
-export interface FeatureFlag {
+export interface FeatureFlag<V extends FeatureFlagValue = FeatureFlagValue> {
   name: string;
   enabled: boolean;
   description: string;
+  // Flags in the same control group share rollout buckets, so a user is in or out of all of them together
   controlGroup?: string;
+  // Value served while the flag is on (default true)
+  value?: V;
+  // Value served while the flag is off (default false); also the flag's safe value
+  defaultValue?: V;
+  // Weighted values split across users while the flag is on, replacing `value`
+  variants?: Array<FeatureFlagVariant<V>>;
+  // Targeting rules, checked in order; the first match decides
+  rules?: FeatureFlagRule<V>[];
+  // Percentage (0-100) of users the flag is enabled for, when no rule matches
+  rollout?: number;
+  // Error-triggered kill switch settings overriding the global ones, or false to exempt the flag
+  killSwitch?: Partial<KillSwitchOptions> | false;
+  // Id of the flag source that last changed the flag
+  source?: string;
+}
+
+// Switch a flag to its safe value after errorThreshold errors within windowMs
+export interface KillSwitchOptions {
+  errorThreshold: number;
+  windowMs: number;
+}
+
+// A value served to a share of users, proportional to its weight
+export interface FeatureFlagVariant<V extends FeatureFlagValue = FeatureFlagValue> {
+  value: V;
+  weight: number;
+}
+
+// Targeting rule; every condition given must match the current user
+export interface FeatureFlagRule<V extends FeatureFlagValue = FeatureFlagValue> {
+  enabled: boolean;
+  // Value served to matching users while enabled
+  value?: V;
+  userIds?: string[];
+  // Matched against the user's "role" or "roles" attribute
+  roles?: string[];
+  // Other user attributes, matching any of the listed values
+  attributes?: Record<string, unknown | unknown[]>;
+  // Percentage (0-100) of matching users the rule applies to
+  rollout?: number;
+}
+
+// Flag changes supplied by a flag source, keyed by flag name; a boolean forces the flag on or off
+export interface FeatureFlagDefinitions {
+  [key: string]: boolean | Partial<Omit<FeatureFlag, 'name' | 'source'>>;
 }
 
 // Feature Flag Map
@@ -0,0 +1,70 @@
+import { HeaderSource, readHeader } from './httpHeaders';
+
+/**
+ * Correlation identifiers linking frontend requests to backend logs
+ */
+
+// Response headers servers commonly use to echo the ID they logged the request under
+const ECHO_HEADERS = ['X-Request-ID', 'X-Correlation-ID', 'traceresponse'];
+
+/**
+ * Random hex string of the given number of bytes
+ */
+const randomHex = (bytes: number): string => {
+  const values = new Uint8Array(bytes);
+
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(values);
+  } else {
+    for (let i = 0; i < bytes; i++) values[i] = Math.floor(Math.random() * 256);
+  }
+
+  return Array.from(values, value => value.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Generate a request ID (a UUID v4)
+ */
+export const createRequestId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  const hex = randomHex(16);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `4${hex.slice(13, 16)}`,
+    `${((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)}${hex.slice(17, 20)}`,
+    hex.slice(20, 32)
+  ].join('-');
+};
+
+/**
+ * Generate a W3C trace context "traceparent" value and its trace ID
+ */
+export const createTraceparent = (): { traceparent: string; traceId: string } => {
+  const traceId = randomHex(16);
+  return { traceparent: `00-${traceId}-${randomHex(8)}-01`, traceId };
+};
+
+/**
+ * Extract the trace ID from a traceparent or traceresponse value
+ */
+export const getTraceId = (value: string): string | undefined => {
+  return value.trim().match(/^[0-9a-f]{2}-([0-9a-f]{32})-[0-9a-f]{16}-[0-9a-f]{2}$/i)?.[1];
+};
+
+/**
+ * Read the request ID echoed by the server, checking the configured header first
+ */
+export const getEchoedRequestId = (headers: HeaderSource, header?: string): string | undefined => {
+  const names = header ? [header, ...ECHO_HEADERS] : ECHO_HEADERS;
+
+  for (const name of names) {
+    const value = readHeader(headers, name);
+    if (value) return getTraceId(value) ?? value;
+  }
+
+  return undefined;
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { DedupeWindow } from './dedupeWindow';
+
+describe('DedupeWindow', () => {
+  it('lets the first occurrence through and suppresses repeats within the window', () => {
+    const dedupe = new DedupeWindow(1000);
+
+    expect(dedupe.check('a', 0).allowed).toBe(true);
+    expect(dedupe.check('a', 500).allowed).toBe(false);
+    expect(dedupe.check('b', 500).allowed).toBe(true);
+
+    const { allowed, stats } = dedupe.check('a', 1000);
+    expect(allowed).toBe(true);
+    expect(stats).toMatchObject({ count: 3, suppressed: 1 });
+  });
+
+  it('keeps the window open until an unconsumed occurrence is marked as allowed', () => {
+    const dedupe = new DedupeWindow(1000);
+
+    expect(dedupe.check('a', 0, false).allowed).toBe(true);
+    expect(dedupe.check('a', 100, false).allowed).toBe(true);
+
+    dedupe.markAllowed('a', 100);
+    expect(dedupe.check('a', 200, false).allowed).toBe(false);
+  });
+
+  it('forgets the least recently seen keys beyond its capacity', () => {
+    const dedupe = new DedupeWindow(1000, 2);
+
+    dedupe.check('a', 0);
+    dedupe.check('b', 0);
+    dedupe.check('c', 0);
+
+    expect(dedupe.check('a', 10).allowed).toBe(true);
+    expect(dedupe.check('c', 10).allowed).toBe(false);
+  });
+});
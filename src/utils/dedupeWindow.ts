@@ -0,0 +1,98 @@
+/**
+ * Occurrence statistics for a deduplicated key
+ */
+export interface OccurrenceStats {
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  // Occurrences swallowed since the key was last let through
+  suppressed: number;
+}
+
+interface Entry {
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  lastAllowed: number;
+  suppressed: number;
+}
+
+/**
+ * Lets the first occurrence of a key through and suppresses repeats
+ * within a time window, while counting every occurrence
+ */
+export class DedupeWindow {
+  private entries = new Map<string, Entry>();
+
+  constructor(private windowMs: number, private maxEntries = 200) {}
+
+  setWindow(windowMs: number): void {
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Record an occurrence and decide whether it should be let through
+   * With `consume` false an allowed occurrence doesn't start the window; call markAllowed once it is used
+   */
+  check(
+    key: string,
+    now: number = Date.now(),
+    consume = true
+  ): { allowed: boolean; stats: OccurrenceStats } {
+    const entry = this.entries.get(key) ?? {
+      count: 0,
+      firstSeen: now,
+      lastSeen: now,
+      lastAllowed: -Infinity,
+      suppressed: 0
+    };
+
+    entry.count++;
+    entry.lastSeen = now;
+
+    const allowed = now - entry.lastAllowed >= this.windowMs;
+    const stats: OccurrenceStats = {
+      count: entry.count,
+      firstSeen: new Date(entry.firstSeen).toISOString(),
+      lastSeen: new Date(entry.lastSeen).toISOString(),
+      suppressed: entry.suppressed
+    };
+
+    if (!allowed) {
+      entry.suppressed++;
+    } else if (consume) {
+      entry.lastAllowed = now;
+      entry.suppressed = 0;
+    }
+
+    // Re-insert so the map stays ordered by most recent use
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.prune();
+
+    return { allowed, stats };
+  }
+
+  /**
+   * Start the window for a key whose occurrence was let through
+   */
+  markAllowed(key: string, now: number = Date.now()): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    entry.lastAllowed = now;
+    entry.suppressed = 0;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private prune(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) return;
+      this.entries.delete(oldest);
+    }
+  }
+}
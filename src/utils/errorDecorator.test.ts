@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest';
+import { NetworkError, RateLimitError } from '../errors/classes';
+import { retryWithBackoff } from './errorDecorator';
+
+describe('retryWithBackoff', () => {
+  it('retries until the operation succeeds', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new NetworkError())
+      .mockResolvedValueOnce('done');
+
+    await expect(retryWithBackoff(fn, { initialDelayMs: 0 })).resolves.toBe('done');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits as long as Retry-After asks, up to maxDelayMs', async () => {
+    const onRetry = vi.fn();
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new RateLimitError('Slow down', 0.01))
+      .mockResolvedValueOnce('done');
+
+    await retryWithBackoff(fn, { onRetry });
+    expect(onRetry).toHaveBeenCalledWith(expect.any(RateLimitError), 1, 10);
+  });
+
+  it('gives up when Retry-After exceeds maxDelayMs', async () => {
+    const error = new RateLimitError('Slow down', 3600);
+    const fn = vi.fn().mockRejectedValue(error);
+
+    await expect(retryWithBackoff(fn, { maxDelayMs: 10000 })).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -2,6 +2,9 @@ import ErrorManager from '../errors/ErrorManager';
 import { ApiResponse, ErrorResponse } from '../types';
 import { logErrorToMonitoring } from '../services/errorLogging';
 import { isFeatureEnabled } from '../features/featureFlags';
+import { recordCaughtError } from '../features/killSwitches';
+import { exceedsMaxDelay, getRetryDelay, resolveRetryPolicy } from './retryPolicy';
+import { RetryJitter } from '../types';
 
 /**
  * Higher-order function to wrap API calls with error handling
@@ -28,6 +31,7 @@ export function withErrorHandling<T, Args extends any[]>(
     } catch (error) {
       // Process the error through ErrorManager
       let processedError = ErrorManager.handle(error);
+      recordCaughtError(error, processedError);
       
       // Apply custom error transformation if provided
       if (options.transformError) {
@@ -66,7 +70,10 @@ export async function retryWithBackoff<T>(
     initialDelayMs?: number;
     maxDelayMs?: number;
     backoffFactor?: number;
+    jitter?: RetryJitter;
+    respectRetryAfter?: boolean;
     shouldRetry?: (error: unknown, attempts: number) => boolean;
+    onRetry?: (error: unknown, attempts: number, delayMs: number) => void;
   } = {}
 ): Promise<T> {
   const {
@@ -74,9 +81,13 @@ export async function retryWithBackoff<T>(
     initialDelayMs = 1000,
     maxDelayMs = 10000,
     backoffFactor = 2,
-    shouldRetry = () => true
+    jitter = 'none',
+    respectRetryAfter = true,
+    shouldRetry = () => true,
+    onRetry
   } = options;
   
+  const policy = resolveRetryPolicy({ initialDelayMs, maxDelayMs, backoffFactor, jitter });
   let attempts = 0;
   
   // eslint-disable-next-line no-constant-condition
@@ -91,11 +102,15 @@ export async function retryWithBackoff<T>(
         throw error;
       }
       
-      // Calculate delay with exponential backoff
-      const delay = Math.min(
-        initialDelayMs * Math.pow(backoffFactor, attempts - 1),
-        maxDelayMs
-      );
+      // The server asked for a longer wait than we are willing to hold the caller
+      if (respectRetryAfter && exceedsMaxDelay(error, maxDelayMs)) {
+        throw error;
+      }
+      
+      // Wait as long as the server asked for, otherwise use exponential backoff
+      const delay = getRetryDelay(respectRetryAfter ? error : undefined, attempts, policy);
+      
+      onRetry?.(error, attempts, delay);
       
       // Wait before next retry
       await new Promise(resolve => setTimeout(resolve, delay));
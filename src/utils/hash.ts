@@ -0,0 +1,11 @@
+/**
+ * 32-bit FNV-1a hash: fast, stable across sessions and well spread for short strings
+ */
+export const fnv1a = (input: string): number => {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    value ^= input.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
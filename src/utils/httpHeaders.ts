@@ -0,0 +1,23 @@
+/**
+ * Response headers as exposed by axios or a plain object
+ */
+export type HeaderSource =
+  | { get?: (name: string) => unknown; [key: string]: unknown }
+  | undefined
+  | null;
+
+/**
+ * Read a header value case-insensitively
+ */
+export const readHeader = (headers: HeaderSource, name: string): string | undefined => {
+  if (!headers) return undefined;
+
+  const lowerName = name.toLowerCase();
+  const value = typeof headers.get === 'function'
+    ? headers.get(lowerName)
+    : headers[lowerName] ?? headers[name];
+
+  if (Array.isArray(value)) return value.length > 0 ? String(value[0]) : undefined;
+  if (value === undefined || value === null || value === '') return undefined;
+  return String(value).trim();
+};
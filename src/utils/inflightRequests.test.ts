@@ -0,0 +1,89 @@
+import axios from 'axios';
+import { describe, expect, it, vi } from 'vitest';
+import { BaseError, CancelledError } from '../errors/classes';
+import { getRequestKey, shareRequest } from './inflightRequests';
+
+describe('getRequestKey', () => {
+  const client = axios.create({ baseURL: 'https://api.example.com' });
+
+  it('only keys GET requests', () => {
+    expect(getRequestKey('/users', { method: 'POST' }, client)).toBeUndefined();
+    expect(getRequestKey('/users', { method: 'get' }, client)).toBeDefined();
+  });
+
+  it('keys identical requests through the same client alike', () => {
+    expect(getRequestKey('/users', { params: { page: 1 } }, client))
+      .toBe(getRequestKey('/users', { params: { page: 1 } }, client));
+  });
+
+  it('tells apart params, headers and clients', () => {
+    const key = getRequestKey('/users', { params: { page: 1 } }, client);
+    const otherClient = axios.create({ baseURL: 'https://billing.example.com' });
+
+    expect(getRequestKey('/users', { params: { page: 2 } }, client)).not.toBe(key);
+    expect(getRequestKey('/users', { params: { page: 1 }, headers: { 'X-Tenant': 'a' } }, client)).not.toBe(key);
+    expect(getRequestKey('/users', { params: { page: 1 } }, otherClient)).not.toBe(key);
+  });
+
+  it('tells apart timeouts, retry policies and scopes', () => {
+    const key = getRequestKey('/users', { timeout: 5000 }, client);
+
+    expect(getRequestKey('/users', { timeout: 10000 }, client)).not.toBe(key);
+    expect(getRequestKey('/users', { timeout: 5000, retry: false }, client)).not.toBe(key);
+    expect(getRequestKey('/users', { timeout: 5000, scope: { tags: { area: 'billing' } } }, client)).not.toBe(key);
+  });
+});
+
+describe('shareRequest', () => {
+  it('runs identical requests once', async () => {
+    const factory = vi.fn(() => Promise.resolve('users'));
+
+    const results = await Promise.all([shareRequest('key', factory), shareRequest('key', factory)]);
+
+    expect(results).toEqual(['users', 'users']);
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('tells every caller sharing a request about its retries', async () => {
+    let retry: ((error: BaseError, attempt: number, delayMs: number) => void) | undefined;
+    let finish: ((value: string) => void) | undefined;
+    const factory = (_signal: AbortSignal, onRetry: typeof retry) => {
+      retry = onRetry;
+      return new Promise<string>((resolve) => {
+        finish = resolve;
+      });
+    };
+    const retrying = { first: false, second: false };
+
+    const results = Promise.all([
+      shareRequest('retried', factory, undefined, () => { retrying.first = true; }),
+      shareRequest('retried', factory, undefined, () => { retrying.second = true; })
+    ]);
+    retry?.(new BaseError('Service unavailable'), 1, 1000);
+    finish?.('users');
+
+    expect(await results).toEqual(['users', 'users']);
+    expect(retrying).toEqual({ first: true, second: true });
+  });
+
+  it('only aborts the shared request once every caller has left', async () => {
+    let sharedSignal: AbortSignal | undefined;
+    const factory = (signal: AbortSignal) => {
+      sharedSignal = signal;
+      return new Promise<string>(() => undefined);
+    };
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const firstResult = shareRequest('pending', factory, first.signal);
+    const secondResult = shareRequest('pending', factory, second.signal);
+
+    first.abort();
+    await expect(firstResult).rejects.toBeInstanceOf(CancelledError);
+    expect(sharedSignal?.aborted).toBe(false);
+
+    second.abort();
+    await expect(secondResult).rejects.toBeInstanceOf(CancelledError);
+    expect(sharedSignal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,130 @@
+import { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { CancelledError } from '../errors/classes';
+
+/**
+ * Sharing of identical in-flight requests
+ * Callers asking for the same GET while it is pending join the existing request.
+ * Each caller can cancel independently; the underlying request is only aborted
+ * once every caller has left. Every caller still waiting is told about retries
+ */
+
+type RetryListener = NonNullable<AxiosRequestConfig['onRetry']>;
+
+interface InflightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+  retryListeners: Set<RetryListener>;
+}
+
+const inflight = new Map<string, InflightRequest>();
+
+// Clients are told apart by identity: their base URLs, interceptors and policies may differ
+const clientIds = new WeakMap<AxiosInstance, number>();
+let nextClientId = 0;
+
+const getClientId = (client: AxiosInstance): number => {
+  let id = clientIds.get(client);
+  if (id === undefined) {
+    id = nextClientId++;
+    clientIds.set(client, id);
+  }
+  return id;
+};
+
+/**
+ * Key identifying a request that can be shared, or undefined for non-GET requests
+ * Requests are only shared between callers using the same client, timeout,
+ * retry policy and scope, since the first caller's settings apply to everyone
+ */
+export const getRequestKey = (
+  url: string,
+  config?: AxiosRequestConfig,
+  client?: AxiosInstance
+): string | undefined => {
+  const method = (config?.method || 'GET').toUpperCase();
+  if (method !== 'GET') return undefined;
+
+  return [
+    client ? `client:${getClientId(client)}` : 'client:none',
+    method,
+    url,
+    JSON.stringify(config?.params ?? null),
+    JSON.stringify(config?.headers ?? null),
+    JSON.stringify(config?.timeout ?? null),
+    JSON.stringify(config?.retry ?? null),
+    JSON.stringify(config?.scope ?? null)
+  ].join(' ');
+};
+
+/**
+ * Run a request, or join the identical one already in flight
+ * The factory receives the signal of the shared request and a retry callback
+ * notifying every caller still waiting; the caller's own signal only detaches that caller
+ */
+export const shareRequest = <T>(
+  key: string,
+  factory: (signal: AbortSignal, onRetry: RetryListener) => Promise<T>,
+  signal?: AbortSignal,
+  onRetry?: RetryListener
+): Promise<T> => {
+  if (signal?.aborted) {
+    return Promise.reject(new CancelledError());
+  }
+
+  let request = inflight.get(key);
+  if (!request) {
+    const controller = new AbortController();
+    const retryListeners = new Set<RetryListener>();
+    const created: InflightRequest = {
+      promise: factory(controller.signal, (error, attempt, delayMs) => {
+        retryListeners.forEach(listener => listener(error, attempt, delayMs));
+      }).finally(() => {
+        if (inflight.get(key) === created) inflight.delete(key);
+      }),
+      controller,
+      subscribers: 0,
+      retryListeners
+    };
+    inflight.set(key, created);
+    request = created;
+  }
+
+  const shared = request;
+  shared.subscribers++;
+  if (onRetry) shared.retryListeners.add(onRetry);
+
+  return new Promise<T>((resolve, reject) => {
+    const leave = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      if (onRetry) shared.retryListeners.delete(onRetry);
+      shared.subscribers--;
+    };
+
+    const handleAbort = () => {
+      leave();
+
+      // Nobody is waiting anymore: abort and stop offering it to new callers
+      if (shared.subscribers === 0) {
+        shared.controller.abort();
+        if (inflight.get(key) === shared) inflight.delete(key);
+      }
+      reject(new CancelledError());
+    };
+
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    shared.promise.then(
+      (value) => {
+        if (signal?.aborted) return;
+        leave();
+        resolve(value as T);
+      },
+      (error) => {
+        if (signal?.aborted) return;
+        leave();
+        reject(error);
+      }
+    );
+  });
+};
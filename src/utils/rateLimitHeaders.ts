@@ -0,0 +1,82 @@
+import { RateLimitInfo } from '../types';
+import { HeaderSource, readHeader } from './httpHeaders';
+
+// Values above this are treated as epoch seconds rather than a delta
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+/**
+ * Parse a Retry-After value (delta-seconds or HTTP-date) into whole seconds
+ */
+export const parseRetryAfter = (
+  value: string | undefined,
+  now: number = Date.now()
+): number | undefined => {
+  if (!value) return undefined;
+
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+
+  return Math.max(0, Math.ceil((date - now) / 1000));
+};
+
+/**
+ * Parse a rate limit reset value (delta-seconds or epoch seconds) into seconds from now
+ */
+const parseResetSeconds = (value: string | undefined, now: number): number | undefined => {
+  if (!value || !/^\d+(\.\d+)?$/.test(value)) return undefined;
+
+  const numeric = parseFloat(value);
+  const seconds = numeric > EPOCH_SECONDS_THRESHOLD
+    ? numeric - now / 1000
+    : numeric;
+
+  return Math.max(0, Math.ceil(seconds));
+};
+
+const parseCount = (value: string | undefined): number | undefined => {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+  return parseInt(value, 10);
+};
+
+/**
+ * Extract retry timing and rate limit details from response headers
+ * Supports Retry-After plus the common X-RateLimit-* and RateLimit-* headers
+ */
+export const parseRateLimitHeaders = (
+  headers: HeaderSource,
+  now: number = Date.now()
+): { retryAfter?: number; rateLimit?: RateLimitInfo } => {
+  const limit = parseCount(
+    readHeader(headers, 'X-RateLimit-Limit') ?? readHeader(headers, 'RateLimit-Limit')
+  );
+  const remaining = parseCount(
+    readHeader(headers, 'X-RateLimit-Remaining') ?? readHeader(headers, 'RateLimit-Remaining')
+  );
+  const resetSeconds = parseResetSeconds(
+    readHeader(headers, 'X-RateLimit-Reset') ?? readHeader(headers, 'RateLimit-Reset'),
+    now
+  );
+
+  // Retry-After wins; otherwise fall back to the reset time once the quota is used up
+  const retryAfter = parseRetryAfter(readHeader(headers, 'Retry-After'), now) ??
+    (remaining === 0 || remaining === undefined ? resetSeconds : undefined);
+
+  const hasRateLimit = limit !== undefined || remaining !== undefined || resetSeconds !== undefined;
+
+  return {
+    retryAfter,
+    rateLimit: hasRateLimit
+      ? {
+          limit,
+          remaining,
+          resetAt: resetSeconds !== undefined
+            ? new Date(now + resetSeconds * 1000).toISOString()
+            : undefined
+        }
+      : undefined
+  };
+};
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NetworkError, RateLimitError, ValidationError } from '../errors/classes';
+import {
+  applyJitter, DEFAULT_RETRY_POLICY, exceedsMaxDelay, getRetryDelay, isRetryableError, resolveRetryPolicy
+} from './retryPolicy';
+
+describe('resolveRetryPolicy', () => {
+  it('merges overrides over the default policy, later ones winning', () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 5 }, undefined, { maxAttempts: 2, jitter: 'none' });
+
+    expect(policy).toEqual({ ...DEFAULT_RETRY_POLICY, maxAttempts: 2, jitter: 'none' });
+  });
+});
+
+describe('isRetryableError', () => {
+  const policy = resolveRetryPolicy();
+
+  it('retries retryable categories and statuses', () => {
+    expect(isRetryableError(new NetworkError(), policy)).toBe(true);
+    expect(isRetryableError(new RateLimitError('Slow down', 2), policy)).toBe(true);
+  });
+
+  it('does not retry other errors', () => {
+    expect(isRetryableError(new ValidationError(), policy)).toBe(false);
+    expect(isRetryableError(new Error('plain'), policy)).toBe(false);
+    expect(isRetryableError(new NetworkError(undefined, undefined, undefined, false), policy)).toBe(false);
+  });
+
+  it('gives up when Retry-After asks for more than maxDelayMs', () => {
+    expect(isRetryableError(new RateLimitError('Slow down', 3600), policy)).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  const policy = resolveRetryPolicy({ jitter: 'none' });
+
+  it('backs off exponentially up to maxDelayMs', () => {
+    expect([1, 2, 3, 4, 5].map(attempt => getRetryDelay(new NetworkError(), attempt, policy)))
+      .toEqual([1000, 2000, 4000, 8000, 10000]);
+  });
+
+  it('honors Retry-After, capped at maxDelayMs', () => {
+    expect(getRetryDelay(new RateLimitError('Slow down', 3), 1, policy)).toBe(3000);
+    expect(getRetryDelay(new RateLimitError('Slow down', 3600), 1, policy)).toBe(policy.maxDelayMs);
+  });
+
+  it('flags Retry-After values over the limit', () => {
+    expect(exceedsMaxDelay(new RateLimitError('Slow down', 10), 10000)).toBe(false);
+    expect(exceedsMaxDelay(new RateLimitError('Slow down', 11), 10000)).toBe(true);
+    expect(exceedsMaxDelay(new NetworkError(), 10000)).toBe(false);
+  });
+});
+
+describe('applyJitter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('spreads delays according to the strategy', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(applyJitter(1000, 'none')).toBe(1000);
+    expect(applyJitter(1000, 'full')).toBe(500);
+    expect(applyJitter(1000, 'equal')).toBe(750);
+  });
+});
@@ -0,0 +1,93 @@
+import { BaseError } from '../errors/classes';
+import { ErrorCategory, RetryJitter, RetryPolicy } from '../types';
+
+/**
+ * Default retry policy used by useApi when automatic retry is enabled
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 10000,
+  backoffFactor: 2,
+  jitter: 'full',
+  retryableCategories: [ErrorCategory.NETWORK],
+  retryableStatuses: [408, 429, 500, 502, 503, 504]
+};
+
+/**
+ * Merge partial policies on top of the default policy, later ones winning
+ */
+export const resolveRetryPolicy = (
+  ...overrides: Array<Partial<RetryPolicy> | undefined>
+): RetryPolicy => {
+  return overrides.reduce<RetryPolicy>(
+    (policy, override) => ({ ...policy, ...override }),
+    DEFAULT_RETRY_POLICY
+  );
+};
+
+/**
+ * Check whether a server-provided Retry-After asks for a longer wait than `maxDelayMs`
+ */
+export const exceedsMaxDelay = (error: unknown, maxDelayMs: number): boolean => {
+  return error instanceof BaseError &&
+    error.retryAfter !== undefined &&
+    error.retryAfter * 1000 > maxDelayMs;
+};
+
+/**
+ * Check whether an error may be retried under the given policy
+ */
+export const isRetryableError = (error: unknown, policy: RetryPolicy): boolean => {
+  if (!(error instanceof BaseError)) {
+    return false;
+  }
+
+  // The error itself has the final say on whether retrying makes sense
+  if (!error.canRetry()) {
+    return false;
+  }
+
+  // Waiting longer would keep the request and its loading state pending; give up instead
+  if (exceedsMaxDelay(error, policy.maxDelayMs)) {
+    return false;
+  }
+
+  if (typeof error.code === 'number' && policy.retryableStatuses.includes(error.code)) {
+    return true;
+  }
+
+  return policy.retryableCategories.includes(error.category);
+};
+
+/**
+ * Apply a jitter strategy to a computed backoff delay
+ */
+export const applyJitter = (delayMs: number, jitter: RetryJitter = 'none'): number => {
+  switch (jitter) {
+    case 'full':
+      return Math.round(Math.random() * delayMs);
+    case 'equal':
+      return Math.round(delayMs / 2 + Math.random() * (delayMs / 2));
+    case 'none':
+    default:
+      return delayMs;
+  }
+};
+
+/**
+ * Delay before the next attempt after `failedAttempts` failures
+ * A server-provided Retry-After wins over the computed backoff, up to `maxDelayMs`
+ */
+export const getRetryDelay = (
+  error: unknown,
+  failedAttempts: number,
+  policy: RetryPolicy
+): number => {
+  if (error instanceof BaseError && error.retryAfter !== undefined) {
+    return Math.min(error.retryAfter * 1000, policy.maxDelayMs);
+  }
+
+  const backoff = policy.initialDelayMs * Math.pow(policy.backoffFactor, failedAttempts - 1);
+  return applyJitter(Math.min(backoff, policy.maxDelayMs), policy.jitter);
+};
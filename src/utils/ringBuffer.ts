@@ -0,0 +1,59 @@
+/**
+ * Fixed-capacity buffer that overwrites its oldest entry once full
+ */
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private size = 0;
+
+  constructor(private capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  /**
+   * Add an item, evicting the oldest one when the buffer is full
+   */
+  push(item: T): void {
+    if (this.capacity === 0) return;
+
+    const index = (this.start + this.size) % this.capacity;
+    this.items[index] = item;
+
+    if (this.size < this.capacity) {
+      this.size++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  /**
+   * Get items from oldest to newest
+   */
+  toArray(): T[] {
+    const result: T[] = [];
+    for (let i = 0; i < this.size; i++) {
+      result.push(this.items[(this.start + i) % this.capacity] as T);
+    }
+    return result;
+  }
+
+  /**
+   * Change the capacity, keeping the most recent items
+   */
+  resize(capacity: number): void {
+    const recent = capacity > 0 ? this.toArray().slice(-capacity) : [];
+    this.capacity = capacity;
+    this.clear();
+    recent.forEach(item => this.push(item));
+  }
+
+  clear(): void {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.size = 0;
+  }
+
+  get length(): number {
+    return this.size;
+  }
+}
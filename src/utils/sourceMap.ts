@@ -0,0 +1,148 @@
+/**
+ * Minimal source map (v3) reader
+ * Decodes the VLQ "mappings" of a standard source map, as generated by Vite/Rollup,
+ * and maps generated positions back to original source. Index maps with
+ * "sections" are not supported
+ */
+
+/**
+ * Source map as found in a .map file
+ */
+export interface RawSourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources: string[];
+  names?: string[];
+  mappings: string;
+}
+
+/**
+ * Original position for a generated position; line and column are 1-based
+ */
+export interface OriginalPosition {
+  source: string;
+  line: number;
+  column: number;
+  name?: string;
+}
+
+// [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex?], all 0-based
+type Segment = [number, number, number, number, number?];
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map(Array.from(BASE64).map((char, index) => [char, index]));
+
+/**
+ * Decode one comma-separated segment of base64 VLQ values
+ */
+const decodeVlq = (segment: string): number[] => {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) throw new Error(`Invalid source map mapping character "${char}"`);
+
+    value += (digit & 31) << shift;
+
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      // The lowest bit carries the sign
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+};
+
+/**
+ * A decoded source map that can be queried for original positions
+ */
+export class SourceMapConsumer {
+  private lines: Segment[][] = [];
+  private sources: string[];
+  private names: string[];
+
+  constructor(map: RawSourceMap) {
+    if (map.version !== 3) {
+      throw new Error(`Unsupported source map version ${map.version}`);
+    }
+
+    const root = map.sourceRoot ? map.sourceRoot.replace(/\/?$/, '/') : '';
+    this.sources = map.sources.map(source => `${root}${source}`);
+    this.names = map.names ?? [];
+    this.decode(map.mappings);
+  }
+
+  /**
+   * Find the original position of a 1-based generated line and column
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | undefined {
+    const segments = this.lines[line - 1];
+    if (!segments?.length) return undefined;
+
+    // The mapping covering a column is the last one starting at or before it
+    let low = 0;
+    let high = segments.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (segments[middle][0] <= column - 1) {
+        found = middle;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    if (found === -1) return undefined;
+
+    const [, sourceIndex, originalLine, originalColumn, nameIndex] = segments[found];
+    return {
+      source: this.sources[sourceIndex],
+      line: originalLine + 1,
+      column: originalColumn + 1,
+      name: nameIndex === undefined ? undefined : this.names[nameIndex]
+    };
+  }
+
+  private decode(mappings: string): void {
+    // Every field except the generated column is relative to the previous segment in the file
+    let sourceIndex = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    let nameIndex = 0;
+
+    this.lines = mappings.split(';').map(line => {
+      let generatedColumn = 0;
+      const segments: Segment[] = [];
+
+      line.split(',').forEach(encoded => {
+        if (!encoded) return;
+        const values = decodeVlq(encoded);
+
+        generatedColumn += values[0];
+        // Segments without a source position map to nothing
+        if (values.length < 4) return;
+
+        sourceIndex += values[1];
+        originalLine += values[2];
+        originalColumn += values[3];
+
+        if (values.length >= 5) {
+          nameIndex += values[4];
+          segments.push([generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex]);
+        } else {
+          segments.push([generatedColumn, sourceIndex, originalLine, originalColumn]);
+        }
+      });
+
+      return segments.sort((a, b) => a[0] - b[0]);
+    });
+  }
+}
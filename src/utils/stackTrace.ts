@@ -0,0 +1,47 @@
+import { StackFrame } from '../types';
+
+/**
+ * Stack trace parsing
+ * Turns V8 ("at fn (file:1:2)") and Firefox/Safari ("fn@file:1:2") stack strings
+ * into structured frames; lines in neither format (e.g. the message) are skipped
+ */
+
+const V8_FRAME = /^at (?:(.+?) \()?(.+?)(?::(\d+))?(?::(\d+))?\)?$/;
+const GECKO_FRAME = /^(.*?)@(.+?)(?::(\d+))?(?::(\d+))?$/;
+
+const toNumber = (value: string | undefined): number | undefined => {
+  return value === undefined ? undefined : Number(value);
+};
+
+/**
+ * Parse a single stack line, or return undefined if it isn't a frame
+ */
+const parseFrame = (line: string): StackFrame | undefined => {
+  const match = line.match(V8_FRAME) ?? line.match(GECKO_FRAME);
+  if (!match) return undefined;
+
+  const [, fn, file, lineNumber, column] = match;
+
+  // "at native", "at <anonymous>" and message lines containing "@" have no position
+  if (!lineNumber) return undefined;
+
+  return {
+    function: fn || undefined,
+    file,
+    line: toNumber(lineNumber),
+    column: toNumber(column)
+  };
+};
+
+/**
+ * Parse a stack string into frames, innermost first
+ */
+export const parseStackTrace = (stack: string | undefined, limit = 50): StackFrame[] => {
+  if (!stack) return [];
+
+  return stack
+    .split('\n')
+    .map(line => parseFrame(line.trim()))
+    .filter((frame): frame is StackFrame => Boolean(frame))
+    .slice(0, limit);
+};
@@ -0,0 +1,11 @@
+/**
+ * JSON.stringify that never throws: values it can't serialize (cycles, BigInt,
+ * undefined) fall back to String()
+ */
+export const safeStringify = (value: unknown): string => {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
@@ -0,0 +1,35 @@
+/**
+ * Token bucket rate limiter
+ * Holds up to `capacity` tokens, refilled continuously at `refillPerSecond`;
+ * each allowed action takes one token
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    private capacity: number,
+    private refillPerSecond: number,
+    now: number = Date.now()
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Take a token if one is available
+   */
+  tryTake(now: number = Date.now()): boolean {
+    this.refill(now);
+
+    if (this.tokens < 1) return false;
+    this.tokens--;
+    return true;
+  }
+
+  private refill(now: number): void {
+    const elapsedSeconds = Math.max(0, now - this.updatedAt) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+    this.updatedAt = now;
+  }
+}
@@ -1 +1,20 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Endpoint receiving error monitoring batches
+  readonly VITE_ERROR_REPORTING_URL?: string;
+  // URL probed to confirm the backend is reachable
+  readonly VITE_HEARTBEAT_URL?: string;
+  // Release/version attached to reported errors
+  readonly VITE_RELEASE?: string;
+  // "true" to symbolicate reported stack frames with the build's source maps
+  readonly VITE_SYMBOLICATE_STACKS?: string;
+  // Private location the build's source maps are uploaded to (default: the app's own origin)
+  readonly VITE_SOURCE_MAPS_URL?: string;
+  // JSON document of feature flag definitions, polled for changes
+  readonly VITE_FEATURE_FLAGS_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
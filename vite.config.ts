@@ -1,10 +1,67 @@
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Mock error monitoring endpoint for local development
+ * POST /api/errors stores received batches, GET /api/errors lists them
+ * Set MOCK_ERRORS_FAIL=1 to answer with 503 and exercise the offline queue
+ */
+function mockErrorEndpoint(): Plugin {
+  const received: unknown[] = [];
+
+  return {
+    name: 'mock-error-endpoint',
+    configureServer(server) {
+      server.middlewares.use('/api/errors', (req, res) => {
+        if (req.method === 'GET') {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ count: received.length, events: received }));
+          return;
+        }
+
+        if (req.method !== 'POST') {
+          res.statusCode = 405;
+          res.end();
+          return;
+        }
+
+        if (process.env.MOCK_ERRORS_FAIL === '1') {
+          res.statusCode = 503;
+          res.end();
+          return;
+        }
+
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          try {
+            const { events = [] } = JSON.parse(body || '{}');
+            received.push(...events);
+            server.config.logger.info(`[mock-error-endpoint] received ${events.length} event(s)`);
+            res.statusCode = 204;
+          } catch {
+            res.statusCode = 400;
+          }
+          res.end();
+        });
+      });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  optimizeDeps: {
-    exclude: ['lucide-react'],
-  },
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), 'VITE_');
+
+  return {
+    plugins: [react(), mockErrorEndpoint()],
+    build: {
+      // Only builds that symbolicate error reports emit source maps, unreferenced from the bundles;
+      // upload them somewhere private (VITE_SOURCE_MAPS_URL) rather than deploying them with dist
+      sourcemap: env.VITE_SYMBOLICATE_STACKS === 'true' ? 'hidden' : false,
+    },
+    optimizeDeps: {
+      exclude: ['lucide-react'],
+    },
+  };
 });